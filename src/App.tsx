@@ -1,5 +1,5 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Download, Play, Eye, EyeOff, Camera, PenTool, Sliders, Type, Monitor, Layers, Zap, Maximize, Plug, Unplug, Square, Pause, Home, MapPin, Trash2 } from 'lucide-react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { Download, Play, Eye, EyeOff, Camera, PenTool, Sliders, Type, Monitor, Layers, Zap, Maximize, Plug, Unplug, Square, Pause, Home, MapPin, Trash2, Dices, X, Brush, Focus, DoorOpen, Gauge } from 'lucide-react';
 import {
   connectAxiDraw,
   isWebSerialSupported,
@@ -10,27 +10,123 @@ import {
   estimatePlotTime,
   formatTime,
 } from './axidraw';
+import {
+  startMazeJob,
+  MAZE_STAGES,
+  applyTone,
+  getMazeDimensions,
+  createEmptyMaze,
+  randomSeed,
+  MAX_SEED,
+  CARVE_ALGORITHMS,
+  SOLUTION_ROUTES,
+  TESSELLATIONS,
+  MASK_MODES,
+  MazeData,
+  MazeJob,
+  MazeStage,
+  TargetProgress,
+  DiagnosticOverlay,
+  DIAGNOSTIC_OVERLAYS,
+  Heatmap,
+  diagnosticHeatmap,
+  heatColor,
+  CarveAlgorithm,
+  GrowingTreePick,
+  EdgeMetric,
+  SolutionRoute,
+  Tessellation,
+  MaskMode,
+  MaskStroke,
+  ImportanceStroke,
+  Point,
+  MazeWall,
+  extractWalls,
+  getMazeWarp,
+  solutionPoints,
+  portalMarks,
+  markGlyph,
+  ENDPOINT_LAYOUTS,
+  EndpointLayout,
+  PortalMark,
+  simplifyPolyline,
+  validateMaze,
+  mazeStats,
+} from './maze';
+
+const STAGE_LABELS: Record<MazeStage, string> = {
+  subdivision: 'Subdividing cells',
+  adjacency: 'Linking neighbors',
+  carving: 'Carving passages',
+  solving: 'Solving',
+};
+
+// Text alignment for a START/END label, so it extends away from its arrow
+const labelAlignment = ({ normal }: PortalMark): { align: CanvasTextAlign; baseline: CanvasTextBaseline } =>
+  Math.abs(normal.x) > Math.abs(normal.y)
+    ? { align: normal.x > 0 ? 'left' : 'right', baseline: 'middle' }
+    : { align: 'center', baseline: normal.y > 0 ? 'top' : 'bottom' };
+
+// Status line for failed maze checks
+const describeProblems = (problems: string[]) =>
+  `Maze check found ${problems.length} problem${problems.length === 1 ? '' : 's'}: ${problems.join(' ')}`;
+
+// Opacity of diagnostic heatmaps over the white page or ghost image
+const HEATMAP_ALPHA = 0.6;
+
+// CSS gradient matching heatColor, for overlay legends
+const HEAT_GRADIENT = `linear-gradient(to right, ${[0, 0.25, 0.5, 0.75, 1]
+  .map((t) => `rgb(${heatColor(t).join(',')})`)
+  .join(', ')})`;
+
+// Legend numbers: whole values as is, others to one decimal
+const formatHeat = (v: number) => String(Math.round(v * 10) / 10);
+
+const describeTarget = ({ target }: MazeData, goal: number) => {
+  if (!target) return '';
+  const algorithm = CARVE_ALGORITHMS.find(({ id }) => id === target.algorithm)?.label ?? target.algorithm;
+  const tries = `${target.attempts} candidate${target.attempts === 1 ? '' : 's'}`;
+  return `Difficulty ${target.score} (target ${goal}), best of ${tries}: seed ${target.seed}, ${algorithm}.`;
+};
+
+// Freehand path strokes are simplified to waypoints within this many px
+const FREEHAND_TOLERANCE = 8;
+
+const distanceToSegment = (p: Point, a: Point, b: Point) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const len2 = dx * dx + dy * dy;
+  const t = len2 > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2)) : 0;
+  return Math.hypot(a.x + dx * t - p.x, a.y + dy * t - p.y);
+};
+
+// Index of the waypoint within `radius` of p (the nearest), or null
+const waypointAt = (waypoints: Point[], p: Point, radius: number): number | null => {
+  let best: number | null = null;
+  let bestDist = radius;
+  waypoints.forEach((wp, i) => {
+    const d = Math.hypot(wp.x - p.x, wp.y - p.y);
+    if (d <= bestDist) {
+      best = i;
+      bestDist = d;
+    }
+  });
+  return best;
+};
 
-interface MazeNode {
-  id: number;
-  x: number;
-  y: number;
-  w: number;
-  h: number;
-  rawBrightness: number;
-  visited: boolean;
-  neighbors: { node: MazeNode; side: string; mid: { x: number; y: number } }[];
-  connections: Map<MazeNode, { x: number; y: number }>;
-}
-
-interface MazeData {
-  nodes: MazeNode[];
-  solution: MazeNode[];
-  startNode: MazeNode | null;
-  endNode: MazeNode | null;
-  width: number;
-  height: number;
-}
+// Index i of the dashed leg from waypoint i to i + 1 within `radius` of p, or null
+const legAt = (waypoints: Point[], p: Point, radius: number): number | null => {
+  let best: number | null = null;
+  let bestDist = radius;
+  for (let i = 0; i < waypoints.length - 1; i++) {
+    const d = distanceToSegment(p, waypoints[i], waypoints[i + 1]);
+    if (d <= bestDist) {
+      best = i;
+      bestDist = d;
+    }
+  }
+  return best;
+};
 
 const App = () => {
   const [image, setImage] = useState<HTMLImageElement | null>(null);
@@ -44,12 +140,37 @@ const App = () => {
     // Maze generation
     densityBias: 0.2,
     detailLevel: 5,       // 1-8, maps to subdivision depth
+    tessellation: 'quad' as Tessellation,
     edgeFocus: 2.7,
+    edgeMetric: 'max' as EdgeMetric,
+    seed: randomSeed(),   // same image + params + seed = same maze
+    algorithm: 'backtracker' as CarveAlgorithm,
+    growingTreePick: 'mixed' as GrowingTreePick,
+    growingTreeMix: 0.75, // share of newest-cell picks in mixed mode
+    toneInfluence: 0.8,   // tone-aware carving: brightness -> corridor texture
+    edgeInfluence: 0.5,   // tone-aware carving: follow contours instead of crossing
+    weave: 0,             // chance a straight dark corridor cell becomes a crossing
+    braid: 0,             // share of dead ends opened into loops
+    braidBias: 0,         // braid bright areas first
+    // Difficulty targeting
+    targetDifficulty: 0,  // score to aim for; 0 = off
+    targetBudget: 3000,   // ms spent re-carving candidates
+    targetVaryAlgorithm: false,
+    solutionRoute: 'shortest' as SolutionRoute,
+    endpointLayout: 'top-bottom' as EndpointLayout,
+    // Shape mask
+    maskMode: 'none' as MaskMode,
+    maskThreshold: 230,   // background flood: brightness at or above this joins the border
     // Rendering
     wallThickness: 1.0,
     shadingIntensity: 1.8,
+    warpStrength: 0,      // 0-2, bend walls along facial contours
+    noiseMacro: 0,        // px, seeded noise: large-scale sway
+    noiseMedium: 0,       // px, seeded noise: organic flow
+    noiseFine: 0,         // px, seeded noise: pen-like texture
     showSolution: false,
     showImage: false,
+    overlay: 'none' as DiagnosticOverlay,  // diagnostic heatmap under the walls
     resolution: 800,
     // Export
     svgIncludeLabels: false,
@@ -58,6 +179,7 @@ const App = () => {
   const [status, setStatus] = useState('Waiting for image...');
   const [isGenerating, setIsGenerating] = useState(false);
   const [mazeGenerated, setMazeGenerated] = useState(0);
+  const [targetProgress, setTargetProgress] = useState<TargetProgress | null>(null);
 
   // Plotter state
   const [plotterSupported] = useState(isWebSerialSupported());
@@ -75,41 +197,135 @@ const App = () => {
     penDownLight: 45,  // Lightest stroke (bright areas)
     penDownDark: 25,   // Heaviest stroke (dark areas)
     invertPenLift: false,
+    plotMarkers: false,  // START/END arrows
   });
   const [estimatedTime, setEstimatedTime] = useState<string | null>(null);
   const plotterRef = useRef<Plotter | null>(null);
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const previewRef = useRef<HTMLCanvasElement>(null);
-  const mazeData = useRef<MazeData>({ nodes: [], solution: [], startNode: null, endNode: null, width: 0, height: 0 });
+  const mazeData = useRef<MazeData>(createEmptyMaze());
+  const mazeJob = useRef<MazeJob | null>(null);
+
+  // Metrics of the current maze; recomputed only when a new one arrives
+  const stats = useMemo(
+    () => (mazeData.current.nodes.length > 0 ? mazeStats(mazeData.current) : null),
+    [mazeGenerated]
+  );
+  const heatmap = useMemo(() => diagnosticHeatmap(mazeData.current, params.overlay), [mazeGenerated, params.overlay]);
+
+  // Plot scale in mm per maze px: the maze is fit inside the paper's margins
+  const plotPaper = PAPER_SIZES[plotterSettings.paperSize];
+  const mmPerPx = Math.min(
+    (plotPaper.width - plotterSettings.margin * 2) / (mazeData.current.width || params.resolution),
+    (plotPaper.height - plotterSettings.margin * 2) / (mazeData.current.height || params.resolution)
+  );
 
   // Waypoint-based forced solution path
   const [waypoints, setWaypoints] = useState<{ x: number; y: number }[]>([]);
   const [isPathEditMode, setIsPathEditMode] = useState(false);
   const [hideWaypoints, setHideWaypoints] = useState(false);
-
-  // Canvas click handlers for waypoint editing
-  const handleCanvasClick = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!isPathEditMode) return;
-
+  const [pathTool, setPathTool] = useState<'points' | 'draw' | 'erase'>('points');
+  const [dragWaypoint, setDragWaypoint] = useState<number | null>(null);
+
+  // Canvas brushes: shape mask and importance (local detail). Finished
+  // strokes feed generation alongside the waypoints; the live one is preview only
+  const [paintMode, setPaintMode] = useState<'mask' | 'importance' | null>(null);
+  const [activeStroke, setActiveStroke] = useState<Point[] | null>(null);
+  const [maskStrokes, setMaskStrokes] = useState<MaskStroke[]>([]);
+  const [maskBrush, setMaskBrush] = useState({ radius: 24, erase: false });
+  const [importanceStrokes, setImportanceStrokes] = useState<ImportanceStroke[]>([]);
+  const [importanceBrush, setImportanceBrush] = useState({ radius: 40, amount: 1 });
+
+  // Pointer position in canvas (maze) pixels
+  const canvasPoint = (e: React.MouseEvent<HTMLCanvasElement>) => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
+    if (!canvas) return null;
 
     const rect = canvas.getBoundingClientRect();
     const scaleX = canvas.width / rect.width;
     const scaleY = canvas.height / rect.height;
 
-    const x = (e.clientX - rect.left) * scaleX;
-    const y = (e.clientY - rect.top) * scaleY;
+    return { x: (e.clientX - rect.left) * scaleX, y: (e.clientY - rect.top) * scaleY };
+  };
+
+  // Clicked entrance and exits for the custom endpoint layout
+  const [startPoint, setStartPoint] = useState<Point | null>(null);
+  const [exitPoints, setExitPoints] = useState<Point[]>([]);
+  const [endpointPick, setEndpointPick] = useState<'start' | 'exit' | null>(null);
+
+  // Canvas pointer handlers (mouse, pen and touch alike): endpoint picks,
+  // brush strokes, and waypoint add/drag/insert/delete or freehand drawing
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = canvasPoint(e);
+    if (!point) return;
+
+    if (endpointPick) {
+      if (e.button !== 0) return;
+      if (endpointPick === 'start') {
+        setStartPoint(point);
+        setEndpointPick('exit');
+      } else {
+        setExitPoints(prev => [...prev, point]);
+      }
+      return;
+    }
 
-    setWaypoints(prev => [...prev, { x, y }]);
-  }, [isPathEditMode]);
+    if (paintMode) {
+      if (e.button !== 0) return;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setActiveStroke([point]);
+      return;
+    }
 
-  const handleCanvasRightClick = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
     if (!isPathEditMode) return;
-    e.preventDefault();
-    setWaypoints(prev => prev.slice(0, -1));
-  }, [isPathEditMode]);
+    const rect = e.currentTarget.getBoundingClientRect();
+    const radius = (e.pointerType === 'touch' ? 24 : 12) * (e.currentTarget.width / rect.width);
+    const hit = waypointAt(waypoints, point, radius);
+
+    // Right-click deletes the waypoint under the pointer, or the last one
+    if (e.button === 2 || pathTool === 'erase') {
+      if (hit !== null) setWaypoints(prev => prev.filter((_, i) => i !== hit));
+      else if (e.button === 2) setWaypoints(prev => prev.slice(0, -1));
+      return;
+    }
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    if (pathTool === 'draw') {
+      setActiveStroke([point]);
+    } else if (hit !== null) {
+      setDragWaypoint(hit);
+    } else {
+      // On the dashed line: insert between its ends; elsewhere: append
+      const leg = legAt(waypoints, point, radius);
+      const index = leg === null ? waypoints.length : leg + 1;
+      setWaypoints(prev => [...prev.slice(0, index), point, ...prev.slice(index)]);
+      setDragWaypoint(index);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (dragWaypoint === null && !activeStroke) return;
+    const point = canvasPoint(e);
+    if (!point) return;
+    if (dragWaypoint !== null) setWaypoints(prev => prev.map((wp, i) => (i === dragWaypoint ? point : wp)));
+    else if (activeStroke) setActiveStroke([...activeStroke, point]);
+  };
+
+  const handlePointerUp = () => {
+    setDragWaypoint(null);
+    if (!activeStroke) return;
+    if (paintMode === 'mask') setMaskStrokes(prev => [...prev, { points: activeStroke, ...maskBrush }]);
+    if (paintMode === 'importance') setImportanceStrokes(prev => [...prev, { points: activeStroke, ...importanceBrush }]);
+    if (!paintMode && isPathEditMode) setWaypoints(prev => [...prev, ...simplifyPolyline(activeStroke, FREEHAND_TOLERANCE)]);
+    setActiveStroke(null);
+  };
+
+  // Keep the browser menu off the canvas while right-click deletes waypoints
+  const handleCanvasContextMenu = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (isPathEditMode) e.preventDefault();
+  };
 
   const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -138,29 +354,9 @@ const App = () => {
     const data = imageData.data;
 
     for (let i = 0; i < data.length; i += 4) {
-      // Convert to grayscale
-      let gray = (data[i] + data[i + 1] + data[i + 2]) / 3;
-
-      // Apply brightness (-100 to 100)
-      gray = gray + params.brightness * 2.55;
-
-      // Apply contrast
-      gray = params.contrast * (gray - 128) + 128;
-
-      // Apply gamma correction
-      gray = Math.max(0, Math.min(255, gray));
-      gray = 255 * Math.pow(gray / 255, 1 / params.gamma);
-
-      // Apply posterization (if enabled)
-      if (params.posterize >= 2) {
-        const levels = params.posterize;
-        gray = Math.round(gray / 255 * (levels - 1)) / (levels - 1) * 255;
-      }
-
-      // Apply invert
-      if (params.invert) gray = 255 - gray;
-
-      data[i] = data[i + 1] = data[i + 2] = Math.max(0, Math.min(255, gray));
+      // Convert to grayscale, then apply preprocessing
+      const gray = applyTone((data[i] + data[i + 1] + data[i + 2]) / 3, params);
+      data[i] = data[i + 1] = data[i + 2] = gray;
     }
     ctx.putImageData(imageData, 0, 0);
   };
@@ -169,346 +365,162 @@ const App = () => {
     if (image) updatePreview(image);
   }, [params.brightness, params.contrast, params.gamma, params.posterize, params.invert]);
 
-  // Helper: Find the MazeNode that contains or is closest to a point
-  const findNearestNode = (x: number, y: number, nodes: MazeNode[]): MazeNode | null => {
-    if (nodes.length === 0) return null;
-
-    // First check if point is inside any node
-    for (const node of nodes) {
-      if (x >= node.x && x <= node.x + node.w && y >= node.y && y <= node.y + node.h) {
-        return node;
-      }
-    }
-
-    // Otherwise find nearest by center distance
-    let nearest: MazeNode | null = null;
-    let minDist = Infinity;
-    for (const node of nodes) {
-      const centerX = node.x + node.w / 2;
-      const centerY = node.y + node.h / 2;
-      const dist = Math.hypot(x - centerX, y - centerY);
-      if (dist < minDist) {
-        minDist = dist;
-        nearest = node;
-      }
-    }
-    return nearest;
-  };
-
-  // Helper: BFS through neighbors (adjacency graph, not connections) to find path between two nodes
-  const findPathBFS = (from: MazeNode, to: MazeNode): MazeNode[] => {
-    if (from.id === to.id) return [from];
-
-    const queue: { node: MazeNode; path: MazeNode[] }[] = [{ node: from, path: [from] }];
-    const visited = new Set<number>([from.id]);
-
-    while (queue.length > 0) {
-      const { node, path } = queue.shift()!;
-      if (node.id === to.id) return path;
-
-      for (const { node: neighbor } of node.neighbors) {
-        if (!visited.has(neighbor.id)) {
-          visited.add(neighbor.id);
-          queue.push({ node: neighbor, path: [...path, neighbor] });
-        }
-      }
-    }
-    return [from]; // Fallback if no path (shouldn't happen in connected quadtree)
-  };
-
-  // Helper: Map waypoints to a complete sequence of MazeNodes
-  const mapWaypointsToPath = (wps: { x: number; y: number }[], nodes: MazeNode[]): MazeNode[] => {
-    if (wps.length === 0 || nodes.length === 0) return [];
-
-    // Map each waypoint to its nearest node
-    const waypointNodes = wps
-      .map(wp => findNearestNode(wp.x, wp.y, nodes))
-      .filter((n): n is MazeNode => n !== null);
-
-    if (waypointNodes.length === 0) return [];
-    if (waypointNodes.length === 1) return waypointNodes;
-
-    // For each consecutive pair, find path through neighbor graph
-    const fullPath: MazeNode[] = [waypointNodes[0]];
-
-    for (let i = 0; i < waypointNodes.length - 1; i++) {
-      const from = waypointNodes[i];
-      const to = waypointNodes[i + 1];
-
-      if (from.id === to.id) continue;
-
-      const pathSegment = findPathBFS(from, to);
-      if (pathSegment.length > 1) {
-        fullPath.push(...pathSegment.slice(1));
-      }
-    }
-
-    return fullPath;
-  };
-
   const generateMaze = () => {
     if (!image) return;
+    // A new request supersedes whatever is still running
+    mazeJob.current?.cancel();
     setIsGenerating(true);
+    setTargetProgress(null);
     setStatus('Analyzing features...');
 
-    setTimeout(() => {
-      // Calculate dimensions based on image aspect ratio
-      const aspectRatio = image.width / image.height;
-      let mazeWidth: number, mazeHeight: number;
-      if (aspectRatio >= 1) {
-        // Landscape or square
-        mazeWidth = params.resolution;
-        mazeHeight = Math.round(params.resolution / aspectRatio);
-      } else {
-        // Portrait
-        mazeHeight = params.resolution;
-        mazeWidth = Math.round(params.resolution * aspectRatio);
+    // Calculate dimensions based on image aspect ratio
+    const { width, height } = getMazeDimensions(image.width / image.height, params.resolution);
+
+    // Sample the source at maze resolution; the engine area-averages per cell
+    const offC = document.createElement('canvas');
+    offC.width = width;
+    offC.height = height;
+    const offCtx = offC.getContext('2d')!;
+    offCtx.imageSmoothingQuality = 'high';
+    offCtx.drawImage(image, 0, 0, width, height);
+    const imgData = offCtx.getImageData(0, 0, width, height);
+
+    const job = startMazeJob(
+      imgData,
+      { ...params, width, height, waypoints, maskStrokes, importanceStrokes, startPoint, exitPoints },
+      (stage) => {
+        if (mazeJob.current !== job) return;
+        setStatus(`${STAGE_LABELS[stage]} (${MAZE_STAGES.indexOf(stage) + 1}/${MAZE_STAGES.length})...`);
+      },
+      (progress) => {
+        if (mazeJob.current !== job) return;
+        setTargetProgress(progress);
+        setStatus(`Aiming for difficulty ${params.targetDifficulty}: candidate ${progress.attempt}, best ${progress.bestScore}...`);
       }
-
-      const nodes: MazeNode[] = [];
-
-      // Convert detailLevel (1-8) to minCellSize
-      // Level 1 = coarse (large cells), Level 8 = fine (tiny cells)
-      // At base 800px: level 1 = 100px, level 8 = ~3px
-      const maxDim = Math.max(mazeWidth, mazeHeight);
-      const minCellSize = maxDim / Math.pow(2, params.detailLevel + 2);
-
-      const offC = document.createElement('canvas');
-      offC.width = offC.height = 256;
-      const offCtx = offC.getContext('2d')!;
-      offCtx.drawImage(image, 0, 0, 256, 256);
-      const imgData = offCtx.getImageData(0, 0, 256, 256).data;
-
-      // Apply preprocessing to get processed brightness at a pixel
-      const getProcessedPixelB = (gx: number, gy: number) => {
-        const sx = Math.max(0, Math.min(255, Math.floor((gx / mazeWidth) * 255)));
-        const sy = Math.max(0, Math.min(255, Math.floor((gy / mazeHeight) * 255)));
-        const idx = (sy * 256 + sx) * 4;
-        let gray = (imgData[idx] + imgData[idx + 1] + imgData[idx + 2]) / 3;
-
-        // Apply brightness
-        gray = gray + params.brightness * 2.55;
-
-        // Apply contrast
-        gray = params.contrast * (gray - 128) + 128;
-
-        // Apply gamma
-        gray = Math.max(0, Math.min(255, gray));
-        gray = 255 * Math.pow(gray / 255, 1 / params.gamma);
-
-        // Apply posterization
-        if (params.posterize >= 2) {
-          const levels = params.posterize;
-          gray = Math.round(gray / 255 * (levels - 1)) / (levels - 1) * 255;
-        }
-
-        // Apply invert
-        if (params.invert) gray = 255 - gray;
-
-        return Math.max(0, Math.min(255, gray));
-      };
-
-      const subdivide = (x: number, y: number, w: number, h: number) => {
-        const bMid = getProcessedPixelB(x + w / 2, y + h / 2);
-        const bTL = getProcessedPixelB(x, y);
-        const bBR = getProcessedPixelB(x + w, y + h);
-
-        const edgeStrength = Math.abs(bTL - bBR);
-        // Scale thresholds relative to resolution for consistency
-        const baseResolution = 800;
-        const resScale = maxDim / baseResolution;
-        // bMid is already preprocessed (invert applied), so use it directly
-        const toneThreshold = (bMid / 255) * 45 * params.densityBias * resScale;
-        const finalThreshold = toneThreshold - (edgeStrength / 255) * 30 * params.edgeFocus * resScale;
-
-        const cellSize = Math.min(w, h);
-        if (cellSize > minCellSize && cellSize > finalThreshold) {
-          // Subdivide to keep cells roughly square
-          const aspectRatio = w / h;
-          if (aspectRatio > 1.5) {
-            // Too wide - split horizontally only
-            const hw = w / 2;
-            subdivide(x, y, hw, h);
-            subdivide(x + hw, y, hw, h);
-          } else if (aspectRatio < 0.67) {
-            // Too tall - split vertically only
-            const hh = h / 2;
-            subdivide(x, y, w, hh);
-            subdivide(x, y + hh, w, hh);
-          } else {
-            // Roughly square - split into 4 quadrants
-            const hw = w / 2;
-            const hh = h / 2;
-            subdivide(x, y, hw, hh);
-            subdivide(x + hw, y, hw, hh);
-            subdivide(x, y + hh, hw, hh);
-            subdivide(x + hw, y + hh, hw, hh);
-          }
-        } else {
-          nodes.push({
-            id: nodes.length,
-            x,
-            y,
-            w,
-            h,
-            rawBrightness: bMid,  // Store processed brightness
-            visited: false,
-            neighbors: [],
-            connections: new Map()
-          });
-        }
-      };
-      subdivide(0, 0, mazeWidth, mazeHeight);
-
-      const centerX = mazeWidth / 2;
-      let startNode = nodes[0];
-      let endNode = nodes[nodes.length - 1];
-      let minTopDist = Infinity;
-      let minBottomDist = Infinity;
-      const edgeEps = 1.0;
-
-      nodes.forEach((node) => {
-        if (node.y < edgeEps) {
-          const dist = Math.abs(node.x + node.w / 2 - centerX);
-          if (dist < minTopDist) {
-            minTopDist = dist;
-            startNode = node;
-          }
-        }
-        if (node.y + node.h > mazeHeight - edgeEps) {
-          const dist = Math.abs(node.x + node.w / 2 - centerX);
-          if (dist < minBottomDist) {
-            minBottomDist = dist;
-            endNode = node;
-          }
-        }
-      });
-
-      nodes.forEach((a) => {
-        a.neighbors = [];
-        nodes.forEach((b) => {
-          if (a.id === b.id) return;
-          const nEps = 0.1;
-          const xOverlap = Math.min(a.x + a.w, b.x + b.w) - Math.max(a.x, b.x);
-          const yOverlap = Math.min(a.y + a.h, b.y + b.h) - Math.max(a.y, b.y);
-          const isAdjacent =
-            (xOverlap > nEps &&
-              (Math.abs(a.y - b.y) <= nEps ||
-                Math.abs(a.y + a.h - b.y) <= nEps ||
-                Math.abs(a.y - (b.y + b.h)) <= nEps)) ||
-            (yOverlap > nEps &&
-              (Math.abs(a.x - b.x) <= nEps ||
-                Math.abs(a.x + a.w - b.x) <= nEps ||
-                Math.abs(a.x - (b.x + b.w)) <= nEps));
-          if (isAdjacent) {
-            let side = '';
-            let midX: number, midY: number;
-            if (xOverlap > nEps) {
-              side = a.y < b.y ? 'bottom' : 'top';
-              midX = Math.max(a.x, b.x) + xOverlap / 2;
-              midY = a.y < b.y ? a.y + a.h : b.y + b.h;
-            } else {
-              side = a.x < b.x ? 'right' : 'left';
-              midX = a.x < b.x ? a.x + a.w : b.x + b.w;
-              midY = Math.max(a.y, b.y) + yOverlap / 2;
-            }
-            a.neighbors.push({ node: b, side, mid: { x: midX, y: midY } });
-          }
-        });
+    );
+    mazeJob.current = job;
+
+    job.promise
+      .then((maze) => {
+        if (mazeJob.current !== job) return;
+        mazeJob.current = null;
+        mazeData.current = maze;
+        setMazeGenerated(prev => prev + 1);
+        setIsGenerating(false);
+        const problems = validateMaze(maze);
+        if (problems.length > 0) setStatus(describeProblems(problems));
+        else setStatus([...maze.warnings, describeTarget(maze, params.targetDifficulty)].filter(Boolean).join(' ') || 'Likeness captured.');
+      })
+      .catch((err) => {
+        // Superseded or cancelled jobs have already been replaced
+        if (mazeJob.current !== job) return;
+        mazeJob.current = null;
+        console.error('Generation failed:', err);
+        setIsGenerating(false);
+        setStatus(`Generation failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
       });
+  };
 
-      // Handle forced solution path if waypoints are set
-      let forcedPath: MazeNode[] = [];
-      if (waypoints.length >= 2) {
-        forcedPath = mapWaypointsToPath(waypoints, nodes);
-
-        if (forcedPath.length >= 2) {
-          // Force connections along the path
-          for (let i = 0; i < forcedPath.length - 1; i++) {
-            const curr = forcedPath[i];
-            const next = forcedPath[i + 1];
-
-            const neighborInfo = curr.neighbors.find(n => n.node.id === next.id);
-            if (neighborInfo) {
-              curr.connections.set(next, neighborInfo.mid);
-              next.connections.set(curr, neighborInfo.mid);
-              curr.visited = true;
-              next.visited = true;
-            }
-          }
-
-          // Override start and end nodes
-          startNode = forcedPath[0];
-          endNode = forcedPath[forcedPath.length - 1];
-        }
-      }
-
-      const stack = [startNode];
-      startNode.visited = true;
-      while (stack.length > 0) {
-        const curr = stack[stack.length - 1];
-        const unvisited = curr.neighbors.filter((n) => !n.node.visited);
-        if (unvisited.length > 0) {
-          const nextData = unvisited[Math.floor(Math.random() * unvisited.length)];
-          const next = nextData.node;
-          next.visited = true;
-          curr.connections.set(next, nextData.mid);
-          next.connections.set(curr, nextData.mid);
-          stack.push(next);
-        } else {
-          stack.pop();
-        }
-      }
+  const cancelGeneration = () => {
+    const job = mazeJob.current;
+    if (!job) return;
+    mazeJob.current = null;
+    job.cancel();
+    setIsGenerating(false);
+    setStatus('Generation cancelled.');
+  };
 
-      // Use forced path as solution if set, otherwise find via BFS
-      let solution: MazeNode[] = [];
-      if (forcedPath.length >= 2) {
-        solution = forcedPath;
-      } else {
-        const queue: { node: MazeNode; path: MazeNode[] }[] = [{ node: startNode, path: [] }];
-        const visited = new Set([startNode]);
-        while (queue.length > 0) {
-          const { node, path } = queue.shift()!;
-          const curPath = [...path, node];
-          if (node.id === endNode.id) {
-            solution = curPath;
-            break;
-          }
-          for (const [neighbor] of node.connections) {
-            if (!visited.has(neighbor)) {
-              visited.add(neighbor);
-              queue.push({ node: neighbor, path: curPath });
-            }
-          }
-        }
-      }
+  // Restart a running generation when any input it depends on changes
+  useEffect(() => {
+    if (mazeJob.current) generateMaze();
+  }, [
+    params.brightness,
+    params.contrast,
+    params.gamma,
+    params.posterize,
+    params.invert,
+    params.densityBias,
+    params.detailLevel,
+    params.tessellation,
+    params.edgeFocus,
+    params.edgeMetric,
+    params.seed,
+    params.algorithm,
+    params.growingTreePick,
+    params.growingTreeMix,
+    params.toneInfluence,
+    params.edgeInfluence,
+    params.weave,
+    params.braid,
+    params.braidBias,
+    params.targetDifficulty,
+    params.targetBudget,
+    params.targetVaryAlgorithm,
+    params.solutionRoute,
+    params.endpointLayout,
+    params.maskMode,
+    params.maskThreshold,
+    params.resolution,
+    waypoints,
+    maskStrokes,
+    importanceStrokes,
+    startPoint,
+    exitPoints,
+  ]);
 
-      mazeData.current = { nodes, solution, startNode, endNode, width: mazeWidth, height: mazeHeight };
-      setMazeGenerated(prev => prev + 1);
-      setIsGenerating(false);
-      setStatus('Likeness captured.');
-    }, 100);
-  };
+  // Stop the worker if the app unmounts mid-generation
+  useEffect(() => () => mazeJob.current?.cancel(), []);
 
   const clearMaze = () => {
-    mazeData.current = { nodes: [], solution: [], startNode: null, endNode: null, width: 0, height: 0 };
+    mazeData.current = createEmptyMaze();
     setMazeGenerated(prev => prev + 1); // Trigger re-render
     setStatus('Maze cleared.');
   };
 
-  const getWallThickness = (node: MazeNode, neighbor: MazeNode | null = null) => {
-    // rawBrightness is already preprocessed (brightness, contrast, gamma, posterize, invert applied)
-    const b = neighbor ? (node.rawBrightness + neighbor.rawBrightness) / 2 : node.rawBrightness;
+  const getWallThickness = (b: number) => {
+    // Wall brightness is already preprocessed (brightness, contrast, gamma, posterize, invert applied)
     return params.wallThickness * (1 + ((1 - b / 255) * params.shadingIntensity));
   };
 
+  const drawHeatmap = (ctx: CanvasRenderingContext2D, heatmap: Heatmap) => {
+    const span = heatmap.max - heatmap.min || 1;
+    const heat = (v: number) => heatColor((v - heatmap.min) / span);
+
+    if (heatmap.kind === 'pixels') {
+      const overlay = document.createElement('canvas');
+      overlay.width = heatmap.width;
+      overlay.height = heatmap.height;
+      const overlayCtx = overlay.getContext('2d')!;
+      const img = overlayCtx.createImageData(heatmap.width, heatmap.height);
+      // Colors looked up in 256 steps; a pixel map is too large to ramp one by one
+      const ramp = Array.from({ length: 256 }, (_, i) => heatColor(i / 255));
+      heatmap.values.forEach((v, i) => {
+        const t = Math.max(0, Math.min(1, (v - heatmap.min) / span));
+        img.data.set(ramp[Math.round(t * 255)], i * 4);
+        img.data[i * 4 + 3] = HEATMAP_ALPHA * 255;
+      });
+      overlayCtx.putImageData(img, 0, 0);
+      ctx.drawImage(overlay, 0, 0, ctx.canvas.width, ctx.canvas.height);
+      return;
+    }
+
+    ctx.globalAlpha = HEATMAP_ALPHA;
+    heatmap.values.forEach((v, { polygon }) => {
+      ctx.fillStyle = `rgb(${heat(v).join(',')})`;
+      ctx.beginPath();
+      polygon.forEach(({ x, y }) => ctx.lineTo(x, y));
+      ctx.fill();
+    });
+    ctx.globalAlpha = 1.0;
+  };
+
   const render = () => {
     const canvas = canvasRef.current;
     if (!canvas) return;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    const { nodes, startNode, endNode, width, height } = mazeData.current;
+    const { nodes, width, height } = mazeData.current;
 
     // Update canvas size - use maze dimensions if available, otherwise use image aspect ratio
     if (width > 0 && height > 0) {
@@ -516,14 +528,9 @@ const App = () => {
       canvas.height = height;
     } else if (image) {
       // No maze yet - size canvas based on image aspect ratio
-      const aspectRatio = image.width / image.height;
-      if (aspectRatio >= 1) {
-        canvas.width = params.resolution;
-        canvas.height = Math.round(params.resolution / aspectRatio);
-      } else {
-        canvas.height = params.resolution;
-        canvas.width = Math.round(params.resolution * aspectRatio);
-      }
+      const dims = getMazeDimensions(image.width / image.height, params.resolution);
+      canvas.width = dims.width;
+      canvas.height = dims.height;
     }
 
     ctx.clearRect(0, 0, canvas.width, canvas.height);
@@ -537,95 +544,49 @@ const App = () => {
       ctx.globalAlpha = 1.0;
     }
 
+    // Diagnostic heatmap, under the walls so the maze still reads on top
+    if (heatmap) drawHeatmap(ctx, heatmap);
+
     ctx.strokeStyle = 'black';
     ctx.lineCap = 'square';
     ctx.font = '12px Arial, Helvetica, sans-serif';
     ctx.textAlign = 'center';
 
-    nodes.forEach((node) => {
-      const sides = ['top', 'right', 'bottom', 'left'];
-      sides.forEach((side) => {
-        const boundaryNeighbors = node.neighbors.filter((n) => n.side === side);
-        if (boundaryNeighbors.length === 0) {
-          const isOpen =
-            (node.id === startNode?.id && side === 'top') ||
-            (node.id === endNode?.id && side === 'bottom');
-          if (!isOpen) {
-            ctx.beginPath();
-            ctx.lineWidth = getWallThickness(node);
-            if (side === 'top') {
-              ctx.moveTo(node.x, node.y);
-              ctx.lineTo(node.x + node.w, node.y);
-            } else if (side === 'right') {
-              ctx.moveTo(node.x + node.w, node.y);
-              ctx.lineTo(node.x + node.w, node.y + node.h);
-            } else if (side === 'bottom') {
-              ctx.moveTo(node.x, node.y + node.h);
-              ctx.lineTo(node.x + node.w, node.y + node.h);
-            } else if (side === 'left') {
-              ctx.moveTo(node.x, node.y);
-              ctx.lineTo(node.x, node.y + node.h);
-            }
-            ctx.stroke();
-          }
-        } else {
-          boundaryNeighbors.forEach((nb) => {
-            if (node.id < nb.node.id && !node.connections.has(nb.node)) {
-              ctx.beginPath();
-              ctx.lineWidth = getWallThickness(node, nb.node);
-              if (side === 'top' || side === 'bottom') {
-                const y = side === 'top' ? node.y : node.y + node.h;
-                ctx.moveTo(Math.max(node.x, nb.node.x), y);
-                ctx.lineTo(Math.min(node.x + node.w, nb.node.x + nb.node.w), y);
-              } else {
-                const x = side === 'left' ? node.x : node.x + node.w;
-                ctx.moveTo(x, Math.max(node.y, nb.node.y));
-                ctx.lineTo(x, Math.min(node.y + node.h, nb.node.y + nb.node.h));
-              }
-              ctx.stroke();
-            }
-          });
-        }
-      });
+    const warp = getMazeWarp(mazeData.current, params);
+    extractWalls(mazeData.current, warp).forEach(({ points, brightness, arc }) => {
+      ctx.beginPath();
+      ctx.lineWidth = getWallThickness(brightness);
+      if (arc) {
+        ctx.arc(arc.cx, arc.cy, arc.r, arc.a0, arc.a1);
+      } else {
+        ctx.moveTo(points[0].x, points[0].y);
+        for (let i = 1; i < points.length; i++) ctx.lineTo(points[i].x, points[i].y);
+      }
+      ctx.stroke();
     });
 
     ctx.fillStyle = 'black';
     ctx.lineWidth = 0.75;
-    if (startNode) {
-      const startCenterX = startNode.x + startNode.w / 2;
-      // START label with more padding
-      ctx.textBaseline = 'bottom';
-      ctx.fillText('START', startCenterX, startNode.y - 18);
-      // Down arrow pointing into the maze
-      ctx.beginPath();
-      ctx.moveTo(startCenterX, startNode.y - 14);
-      ctx.lineTo(startCenterX, startNode.y - 3);
-      ctx.stroke();
-      // Arrowhead
-      ctx.beginPath();
-      ctx.moveTo(startCenterX - 3, startNode.y - 7);
-      ctx.lineTo(startCenterX, startNode.y - 3);
-      ctx.lineTo(startCenterX + 3, startNode.y - 7);
-      ctx.stroke();
-    }
-    if (endNode) {
-      const endCenterX = endNode.x + endNode.w / 2;
-      const endBottom = endNode.y + endNode.h;
-      // Down arrow coming out of the maze
+    portalMarks(mazeData.current, warp).forEach((mark) => {
+      const { shaft, head, label } = markGlyph(mark);
+      // Arrow into the maze at the start, out of it at exits
       ctx.beginPath();
-      ctx.moveTo(endCenterX, endBottom + 3);
-      ctx.lineTo(endCenterX, endBottom + 14);
+      ctx.moveTo(shaft[0].x, shaft[0].y);
+      ctx.lineTo(shaft[1].x, shaft[1].y);
       ctx.stroke();
       // Arrowhead
       ctx.beginPath();
-      ctx.moveTo(endCenterX - 3, endBottom + 10);
-      ctx.lineTo(endCenterX, endBottom + 14);
-      ctx.lineTo(endCenterX + 3, endBottom + 10);
+      ctx.moveTo(head[0].x, head[0].y);
+      ctx.lineTo(head[1].x, head[1].y);
+      ctx.lineTo(head[2].x, head[2].y);
       ctx.stroke();
-      // END label with more padding
-      ctx.textBaseline = 'top';
-      ctx.fillText('END', endCenterX, endBottom + 18);
-    }
+      // Label beyond the arrow, on the side it points from
+      const { align, baseline } = labelAlignment(mark);
+      ctx.textAlign = align;
+      ctx.textBaseline = baseline;
+      ctx.fillText(mark.role === 'start' ? 'START' : 'END', label.x, label.y);
+    });
+    ctx.textAlign = 'center';
 
     if (params.showSolution && mazeData.current.solution.length > 0) {
       ctx.strokeStyle = '#3b82f6';
@@ -633,26 +594,15 @@ const App = () => {
       ctx.shadowBlur = 4;
       ctx.shadowColor = '#3b82f6';
       ctx.beginPath();
-      const sol = mazeData.current.solution;
-      ctx.moveTo(sol[0].x + sol[0].w / 2, sol[0].y);
-      ctx.lineTo(sol[0].x + sol[0].w / 2, sol[0].y + sol[0].h / 2);
-      for (let i = 0; i < sol.length - 1; i++) {
-        const sharedMid = sol[i].connections.get(sol[i + 1]);
-        if (sharedMid) {
-          ctx.lineTo(sharedMid.x, sharedMid.y);
-          ctx.lineTo(sol[i + 1].x + sol[i + 1].w / 2, sol[i + 1].y + sol[i + 1].h / 2);
-        }
-      }
-      ctx.lineTo(
-        sol[sol.length - 1].x + sol[sol.length - 1].w / 2,
-        sol[sol.length - 1].y + sol[sol.length - 1].h
-      );
+      const sol = solutionPoints(mazeData.current, warp);
+      ctx.moveTo(sol[0].x, sol[0].y);
+      for (let i = 1; i < sol.length; i++) ctx.lineTo(sol[i].x, sol[i].y);
       ctx.stroke();
       ctx.shadowBlur = 0;
     }
 
     // Draw waypoint preview (show when editing or when waypoints exist and not hidden)
-    if (waypoints.length > 0 && !hideWaypoints) {
+    if (waypoints.length > 0 && (isPathEditMode || !hideWaypoints)) {
       // Draw dashed line connecting waypoints
       if (waypoints.length >= 2) {
         ctx.strokeStyle = '#f59e0b';
@@ -683,61 +633,131 @@ const App = () => {
         ctx.fillText(String(index + 1), wp.x, wp.y);
       });
     }
+
+    // Freehand path stroke being drawn
+    if (isPathEditMode && !paintMode && activeStroke && activeStroke.length > 1) {
+      ctx.strokeStyle = '#f59e0b';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(activeStroke[0].x, activeStroke[0].y);
+      for (let i = 1; i < activeStroke.length; i++) ctx.lineTo(activeStroke[i].x, activeStroke[i].y);
+      ctx.stroke();
+    }
+
+    // Picked entrance (green) and exits (red) while choosing them
+    if (endpointPick) {
+      const picks = [...(startPoint ? [{ p: startPoint, color: '#10b981', text: 'S' }] : []),
+        ...exitPoints.map((p, i) => ({ p, color: '#ef4444', text: `E${exitPoints.length > 1 ? i + 1 : ''}` }))];
+      picks.forEach(({ p, color, text }) => {
+        ctx.fillStyle = color;
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, 10, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.fillStyle = 'white';
+        ctx.font = 'bold 10px Arial';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(text, p.x, p.y);
+      });
+    }
+
+    // Mask strokes: green adds, red erases
+    if (paintMode === 'mask') {
+      const strokes = activeStroke ? [...maskStrokes, { points: activeStroke, ...maskBrush }] : maskStrokes;
+      strokes.forEach(({ points, radius, erase }) => drawBrushStroke(ctx, points, radius, erase ? '#ef4444' : '#10b981', 0.35));
+    }
+
+    // Importance strokes: blue for more detail, gray for less, fainter when weaker
+    if (paintMode === 'importance') {
+      const strokes = activeStroke ? [...importanceStrokes, { points: activeStroke, ...importanceBrush }] : importanceStrokes;
+      strokes.forEach(({ points, radius, amount }) =>
+        drawBrushStroke(ctx, points, radius, amount > 0 ? '#3b82f6' : '#64748b', 0.15 + 0.3 * Math.abs(amount))
+      );
+    }
+  };
+
+  // One translucent brush stroke preview
+  const drawBrushStroke = (ctx: CanvasRenderingContext2D, points: Point[], radius: number, color: string, alpha: number) => {
+    ctx.save();
+    ctx.globalAlpha = alpha;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = ctx.fillStyle = color;
+    ctx.lineWidth = radius * 2;
+    ctx.beginPath();
+    if (points.length === 1) {
+      ctx.arc(points[0].x, points[0].y, radius, 0, Math.PI * 2);
+      ctx.fill();
+    } else {
+      ctx.moveTo(points[0].x, points[0].y);
+      for (let i = 1; i < points.length; i++) ctx.lineTo(points[i].x, points[i].y);
+      ctx.stroke();
+    }
+    ctx.restore();
   };
 
   const downloadSVG = () => {
-    const { nodes, startNode, endNode, width, height } = mazeData.current;
+    const { nodes, width, height } = mazeData.current;
     if (!nodes.length) return;
 
-    // Collect all wall segments with their weights
+    // A broken maze is only saved if the user still wants the file
+    const problems = validateMaze(mazeData.current);
+    if (problems.length > 0) {
+      if (!window.confirm(`${describeProblems(problems)}\n\nExport the SVG anyway?`)) {
+        setStatus(`SVG export cancelled. ${describeProblems(problems)}`);
+        return;
+      }
+    }
+
+    const warp = getMazeWarp(mazeData.current, params);
+    const marks = portalMarks(mazeData.current, warp);
+
+    const fmt = (n: number) => String(Math.round(n * 1000) / 1000);
+
+    // START/END arrows and labels, oriented along each opening
+    const marksSVG = (color: string, textAttrs = '') =>
+      marks
+        .map((mark) => {
+          const { shaft, head, label } = markGlyph(mark);
+          const { align, baseline } = labelAlignment(mark);
+          const anchor = align === 'left' ? 'start' : align === 'right' ? 'end' : 'middle';
+          const y = label.y + (baseline === 'bottom' ? -2 : baseline === 'top' ? 10 : 4);
+          const text = mark.role === 'start' ? 'START' : 'END';
+          const line = (points: Point[]) => points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${fmt(p.x)} ${fmt(p.y)}`).join(' ');
+          return (
+            `<text x="${fmt(label.x)}" y="${fmt(y)}" font-family="Arial, Helvetica, sans-serif" font-size="12" fill="${color}"${textAttrs} text-anchor="${anchor}">${text}</text>` +
+            `<path d="${line(shaft)}" stroke="${color}" stroke-width="0.75" fill="none" />` +
+            `<path d="${line(head)}" stroke="${color}" stroke-width="0.75" fill="none" />`
+          );
+        })
+        .join('');
+
+    // Path data for one wall; curved walls become SVG arcs, split in two
+    // past a half turn (a single arc command can't draw a full circle)
+    const wallPathD = ({ points, arc }: MazeWall) => {
+      if (!arc) return points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${fmt(p.x)} ${fmt(p.y)}`).join(' ');
+      const at = (a: number) => `${fmt(arc.cx + arc.r * Math.cos(a))} ${fmt(arc.cy + arc.r * Math.sin(a))}`;
+      const to = (a: number) => ` A ${fmt(arc.r)} ${fmt(arc.r)} 0 0 1 ${at(a)}`;
+      const mid = (arc.a0 + arc.a1) / 2;
+      return `M ${at(arc.a0)}` + (arc.a1 - arc.a0 > Math.PI ? to(mid) : '') + to(arc.a1);
+    };
+
+    // Collect all wall segments with their weights; arcs stay whole
     type SegmentWithWeight = { x1: number; y1: number; x2: number; y2: number; weight: number };
     const segmentsWithWeights: SegmentWithWeight[] = [];
-
-    nodes.forEach((node) => {
-      const sides = ['top', 'right', 'bottom', 'left'];
-      sides.forEach((side) => {
-        const boundaryNeighbors = node.neighbors.filter((n) => n.side === side);
-        if (boundaryNeighbors.length === 0) {
-          const isOpen =
-            (node.id === startNode?.id && side === 'top') ||
-            (node.id === endNode?.id && side === 'bottom');
-          if (!isOpen) {
-            const weight = getWallThickness(node);
-            if (side === 'top') segmentsWithWeights.push({ x1: node.x, y1: node.y, x2: node.x + node.w, y2: node.y, weight });
-            else if (side === 'right')
-              segmentsWithWeights.push({ x1: node.x + node.w, y1: node.y, x2: node.x + node.w, y2: node.y + node.h, weight });
-            else if (side === 'bottom')
-              segmentsWithWeights.push({ x1: node.x, y1: node.y + node.h, x2: node.x + node.w, y2: node.y + node.h, weight });
-            else if (side === 'left')
-              segmentsWithWeights.push({ x1: node.x, y1: node.y, x2: node.x, y2: node.y + node.h, weight });
-          }
-        } else {
-          boundaryNeighbors.forEach((nb) => {
-            if (node.id < nb.node.id && !node.connections.has(nb.node)) {
-              const weight = getWallThickness(node, nb.node);
-              if (side === 'top' || side === 'bottom') {
-                const y = side === 'top' ? node.y : node.y + node.h;
-                segmentsWithWeights.push({
-                  x1: Math.max(node.x, nb.node.x),
-                  y1: y,
-                  x2: Math.min(node.x + node.w, nb.node.x + nb.node.w),
-                  y2: y,
-                  weight,
-                });
-              } else {
-                const x = side === 'left' ? node.x : node.x + node.w;
-                segmentsWithWeights.push({
-                  x1: x,
-                  y1: Math.max(node.y, nb.node.y),
-                  x2: x,
-                  y2: Math.min(node.y + node.h, nb.node.y + nb.node.h),
-                  weight,
-                });
-              }
-            }
-          });
-        }
-      });
+    const arcsWithWeights: { d: string; weight: number }[] = [];
+
+    const walls = extractWalls(mazeData.current, warp);
+    walls.forEach((wall) => {
+      const { points, brightness } = wall;
+      const weight = getWallThickness(brightness);
+      if (wall.arc) {
+        arcsWithWeights.push({ d: wallPathD(wall), weight });
+        return;
+      }
+      for (let i = 0; i < points.length - 1; i++) {
+        segmentsWithWeights.push({ x1: points[i].x, y1: points[i].y, x2: points[i + 1].x, y2: points[i + 1].y, weight });
+      }
     });
 
     let svgPaths = '';
@@ -828,11 +848,6 @@ const App = () => {
           if (!used[i]) chains.push(buildChain(i));
         }
 
-        const fmt = (n: number) => {
-          const v = Math.round(n * 1000) / 1000;
-          return Number.isInteger(v) ? String(v) : String(v);
-        };
-
         // Emit a single path "d" with multiple subpaths (one per chain)
         const parts: string[] = [];
         for (const chain of chains) {
@@ -848,7 +863,7 @@ const App = () => {
       };
 
       // Find min/max weights to create 4 buckets
-      const weights = segmentsWithWeights.map(p => p.weight);
+      const weights = [...segmentsWithWeights, ...arcsWithWeights].map(p => p.weight);
       const minWeight = Math.min(...weights);
       const maxWeight = Math.max(...weights);
       const range = maxWeight - minWeight;
@@ -861,35 +876,34 @@ const App = () => {
         '#000000', // Black (heaviest)
       ];
 
-      // Group segments into 4 buckets
+      // Group segments (and arcs) into 4 buckets
+      const bucketOf = (weight: number) => {
+        if (range === 0) return 0;
+        const normalized = (weight - minWeight) / range;
+        return Math.min(3, Math.floor(normalized * 4));
+      };
       const buckets: Seg[][] = [[], [], [], []];
+      const arcBuckets: string[][] = [[], [], [], []];
       segmentsWithWeights.forEach(({ x1, y1, x2, y2, weight }) => {
-        let bucketIndex: number;
-        if (range === 0) {
-          bucketIndex = 0;
-        } else {
-          const normalized = (weight - minWeight) / range;
-          bucketIndex = Math.min(3, Math.floor(normalized * 4));
-        }
-        buckets[bucketIndex].push({ x1, y1, x2, y2 });
+        buckets[bucketOf(weight)].push({ x1, y1, x2, y2 });
       });
+      arcsWithWeights.forEach(({ d, weight }) => arcBuckets[bucketOf(weight)].push(d));
 
       // Output each bucket as a group
       const bucketLabels = ['Lightest', 'Light', 'Dark', 'Darkest'];
       buckets.forEach((bucketSegs, index) => {
-        if (bucketSegs.length > 0) {
+        if (bucketSegs.length > 0 || arcBuckets[index].length > 0) {
           svgPaths += `  <!-- ${bucketLabels[index]} -->\n`;
           svgPaths += `  <g stroke="${colors[index]}" fill="none" stroke-linecap="square">\n`;
-          const d = chainAndPathD(bucketSegs);
+          const d = [chainAndPathD(bucketSegs), ...arcBuckets[index]].filter(Boolean).join(' ');
           svgPaths += `    <path d="${d}" />\n`;
           svgPaths += `  </g>\n`;
         }
       });
     } else {
-      // Original behavior - all black
-      segmentsWithWeights.forEach(({ x1, y1, x2, y2, weight }) => {
-        const d = `M ${x1} ${y1} L ${x2} ${y2}`;
-        svgPaths += `<path d="${d}" stroke="black" stroke-width="${weight.toFixed(2)}" fill="none" stroke-linecap="square" />\n`;
+      // Original behavior - all black, one path per wall
+      walls.forEach((wall) => {
+        svgPaths += `<path d="${wallPathD(wall)}" stroke="black" stroke-width="${getWallThickness(wall.brightness).toFixed(2)}" fill="none" stroke-linecap="square" />\n`;
       });
     }
 
@@ -911,38 +925,18 @@ const App = () => {
       border = `<rect x="${-margin + 5}" y="${-margin + 5}" width="${width + margin * 2 - 10}" height="${height + margin * 2 - 10}" stroke="#FF00FF" fill="none" />`;
 
       // START/END labels and arrows in cyan (separate layer)
-      const startCenterX = startNode!.x + startNode!.w / 2;
-      const endCenterX = endNode!.x + endNode!.w / 2;
-      const endBottom = endNode!.y + endNode!.h;
       const labelColor = '#00FFFF'; // Cyan
-
-      // START label and arrow
-      labels = `<text x="${startCenterX}" y="${startNode!.y - 20}" font-family="Arial, Helvetica, sans-serif" font-size="12" fill="${labelColor}" stroke="${labelColor}" stroke-width="0.5" text-anchor="middle">START</text>`;
-      labels += `<path d="M ${startCenterX} ${startNode!.y - 14} L ${startCenterX} ${startNode!.y - 3}" stroke="${labelColor}" stroke-width="0.75" fill="none" />`;
-      labels += `<path d="M ${startCenterX - 3} ${startNode!.y - 7} L ${startCenterX} ${startNode!.y - 3} L ${startCenterX + 3} ${startNode!.y - 7}" stroke="${labelColor}" stroke-width="0.75" fill="none" />`;
-
-      // END arrow and label
-      labels += `<path d="M ${endCenterX} ${endBottom + 3} L ${endCenterX} ${endBottom + 14}" stroke="${labelColor}" stroke-width="0.75" fill="none" />`;
-      labels += `<path d="M ${endCenterX - 3} ${endBottom + 10} L ${endCenterX} ${endBottom + 14} L ${endCenterX + 3} ${endBottom + 10}" stroke="${labelColor}" stroke-width="0.75" fill="none" />`;
-      labels += `<text x="${endCenterX}" y="${endBottom + 28}" font-family="Arial, Helvetica, sans-serif" font-size="12" fill="${labelColor}" stroke="${labelColor}" stroke-width="0.5" text-anchor="middle">END</text>`;
+      labels = marksSVG(labelColor, ` stroke="${labelColor}" stroke-width="0.5"`);
     } else if (params.svgIncludeLabels) {
-      const startCenterX = startNode!.x + startNode!.w / 2;
-      const endCenterX = endNode!.x + endNode!.w / 2;
-      const endBottom = endNode!.y + endNode!.h;
-
-      // START label and arrow
-      labels = `<text x="${startCenterX}" y="${startNode!.y - 20}" font-family="Arial, Helvetica, sans-serif" font-size="12" fill="black" text-anchor="middle">START</text>`;
-      // Down arrow pointing into maze
-      labels += `<path d="M ${startCenterX} ${startNode!.y - 14} L ${startCenterX} ${startNode!.y - 3}" stroke="black" stroke-width="0.75" fill="none" />`;
-      labels += `<path d="M ${startCenterX - 3} ${startNode!.y - 7} L ${startCenterX} ${startNode!.y - 3} L ${startCenterX + 3} ${startNode!.y - 7}" stroke="black" stroke-width="0.75" fill="none" />`;
-
-      // END arrow and label
-      labels += `<path d="M ${endCenterX} ${endBottom + 3} L ${endCenterX} ${endBottom + 14}" stroke="black" stroke-width="0.75" fill="none" />`;
-      labels += `<path d="M ${endCenterX - 3} ${endBottom + 10} L ${endCenterX} ${endBottom + 14} L ${endCenterX + 3} ${endBottom + 10}" stroke="black" stroke-width="0.75" fill="none" />`;
-      labels += `<text x="${endCenterX}" y="${endBottom + 28}" font-family="Arial, Helvetica, sans-serif" font-size="12" fill="black" text-anchor="middle">END</text>`;
+      labels = marksSVG('black');
 
       viewBoxY = -40;
       viewBoxHeight = height + 80;
+      // Room for labels beside left/right openings
+      if (marks.some((mark) => labelAlignment(mark).baseline === 'middle')) {
+        viewBoxX = -60;
+        viewBoxWidth = width + 120;
+      }
     }
 
     const svgContent = `<?xml version="1.0" encoding="UTF-8" standalone="no"?>
@@ -957,9 +951,10 @@ const App = () => {
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = `maze_${width}x${height}.svg`;
+    link.download = `maze_${width}x${height}_${mazeData.current.algorithm}_${mazeData.current.seed}.svg`;
     link.click();
     URL.revokeObjectURL(url);
+    if (problems.length > 0) setStatus(`SVG exported. ${describeProblems(problems)}`);
   };
 
   // Plotter functions
@@ -1003,10 +998,22 @@ const App = () => {
     const plotter = plotterRef.current;
     if (!plotter || mazeData.current.nodes.length === 0) return;
 
+    // Don't spend paper and pen time on a broken maze
+    const problems = validateMaze(mazeData.current);
+    if (problems.length > 0) {
+      setStatus(`Plot cancelled. ${describeProblems(problems)}`);
+      return;
+    }
+
     try {
       const segments = generatePlotJob(mazeData.current, plotter, {
         wallThickness: params.wallThickness,
         shadingIntensity: params.shadingIntensity,
+        warpStrength: params.warpStrength,
+        noiseMacro: params.noiseMacro,
+        noiseMedium: params.noiseMedium,
+        noiseFine: params.noiseFine,
+        markers: plotterSettings.plotMarkers,
       });
 
       setStatus(`Plotting ${segments.length} segments...`);
@@ -1018,7 +1025,7 @@ const App = () => {
       console.error('Plot failed:', err);
       setStatus(`Plot failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
     }
-  }, [params.wallThickness, params.shadingIntensity]);
+  }, [params.wallThickness, params.shadingIntensity, params.warpStrength, params.noiseMacro, params.noiseMedium, params.noiseFine, plotterSettings.plotMarkers]);
 
   const handlePlotterPause = useCallback(() => {
     plotterRef.current?.pause();
@@ -1109,11 +1116,16 @@ const App = () => {
       const segments = generatePlotJob(mazeData.current, plotterRef.current, {
         wallThickness: params.wallThickness,
         shadingIntensity: params.shadingIntensity,
+        warpStrength: params.warpStrength,
+        noiseMacro: params.noiseMacro,
+        noiseMedium: params.noiseMedium,
+        noiseFine: params.noiseFine,
+        markers: plotterSettings.plotMarkers,
       });
       const time = estimatePlotTime(segments, plotterSettings.speed);
       setEstimatedTime(formatTime(time));
     }
-  }, [params.wallThickness, params.shadingIntensity, plotterSettings.speed, plotterStatus.state]);
+  }, [params.wallThickness, params.shadingIntensity, params.warpStrength, params.noiseMacro, params.noiseMedium, params.noiseFine, plotterSettings.speed, plotterSettings.plotMarkers, plotterStatus.state]);
 
   // Update plotter config when settings change
   useEffect(() => {
@@ -1142,12 +1154,24 @@ const App = () => {
     params.showSolution,
     params.wallThickness,
     params.shadingIntensity,
+    params.warpStrength,
+    params.noiseMacro,
+    params.noiseMedium,
+    params.noiseFine,
     params.contrast,
     params.showImage,
+    params.overlay,
     params.resolution,
     isPathEditMode,
     waypoints,
     hideWaypoints,
+    paintMode,
+    maskStrokes,
+    importanceStrokes,
+    activeStroke,
+    endpointPick,
+    startPoint,
+    exitPoints,
     image
   ]);
 
@@ -1269,6 +1293,18 @@ const App = () => {
                 <option value="1200">1200px (Plotter)</option>
               </select>
             </div>
+            <div className="space-y-1">
+              <div className="text-[10px] text-slate-500 font-bold uppercase">Cell Shape</div>
+              <select
+                value={params.tessellation}
+                onChange={(e) => setParams({ ...params, tessellation: e.target.value as Tessellation })}
+                className="w-full bg-slate-900 border border-slate-700 rounded p-1.5 text-xs text-slate-200 focus:outline-none"
+              >
+                {TESSELLATIONS.map(({ id, label }) => (
+                  <option key={id} value={id}>{label}</option>
+                ))}
+              </select>
+            </div>
             <div className="space-y-1">
               <div className="flex justify-between text-[10px] text-slate-500 font-bold uppercase">
                 <span className="flex items-center gap-1">
@@ -1307,6 +1343,32 @@ const App = () => {
                 className="w-full accent-blue-500"
               />
             </div>
+            <div className="space-y-1">
+              <div className="flex justify-between text-[10px] text-slate-500 font-bold uppercase">
+                <span>Seed</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min="0"
+                  max={MAX_SEED}
+                  step="1"
+                  value={params.seed}
+                  onChange={(e) => {
+                    const seed = parseInt(e.target.value);
+                    if (!isNaN(seed)) setParams({ ...params, seed: Math.max(0, Math.min(MAX_SEED, seed)) });
+                  }}
+                  className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded p-1.5 text-xs text-slate-200 font-mono focus:outline-none"
+                />
+                <button
+                  onClick={() => setParams({ ...params, seed: randomSeed() })}
+                  className="py-1.5 px-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded text-xs font-bold flex items-center gap-1 transition-all"
+                  title="Reroll seed"
+                >
+                  <Dices size={12} /> Reroll
+                </button>
+              </div>
+            </div>
           </div>
 
           <div className="space-y-4 p-4 bg-slate-800/30 rounded-xl border border-white/5">
@@ -1328,6 +1390,300 @@ const App = () => {
                 className="w-full accent-emerald-500"
               />
             </div>
+            <div className="space-y-1">
+              <div className="flex justify-between text-[10px] text-slate-500 font-bold uppercase">
+                <span>Edge Measure</span>
+              </div>
+              <select
+                value={params.edgeMetric}
+                onChange={(e) => setParams({ ...params, edgeMetric: e.target.value as EdgeMetric })}
+                className="w-full bg-slate-900 border border-slate-700 rounded p-1.5 text-xs text-slate-200 focus:outline-none"
+              >
+                <option value="max">Strongest edge in cell</option>
+                <option value="mean">Average gradient in cell</option>
+              </select>
+            </div>
+            <div className="space-y-1">
+              <div className="flex justify-between text-[10px] text-slate-500 font-bold uppercase">
+                <span>Carving Algorithm</span>
+              </div>
+              <select
+                value={params.algorithm}
+                onChange={(e) => setParams({ ...params, algorithm: e.target.value as CarveAlgorithm })}
+                className="w-full bg-slate-900 border border-slate-700 rounded p-1.5 text-xs text-slate-200 focus:outline-none"
+              >
+                {CARVE_ALGORITHMS.map(({ id, label }) => (
+                  <option key={id} value={id}>{label}</option>
+                ))}
+              </select>
+            </div>
+            {params.algorithm === 'growing-tree' && (
+              <>
+                <div className="space-y-1">
+                  <div className="flex justify-between text-[10px] text-slate-500 font-bold uppercase">
+                    <span>Pick Strategy</span>
+                  </div>
+                  <select
+                    value={params.growingTreePick}
+                    onChange={(e) => setParams({ ...params, growingTreePick: e.target.value as GrowingTreePick })}
+                    className="w-full bg-slate-900 border border-slate-700 rounded p-1.5 text-xs text-slate-200 focus:outline-none"
+                  >
+                    <option value="newest">Newest (long corridors)</option>
+                    <option value="random">Random (short branches)</option>
+                    <option value="oldest">Oldest (straight runs)</option>
+                    <option value="mixed">Mixed</option>
+                  </select>
+                </div>
+                {params.growingTreePick === 'mixed' && (
+                  <div className="space-y-1">
+                    <div className="flex justify-between text-[10px] text-slate-500 font-bold uppercase">
+                      <span>Newest / Random Mix</span>
+                      <span>{Math.round(params.growingTreeMix * 100)}%</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="0"
+                      max="1"
+                      step="0.05"
+                      value={params.growingTreeMix}
+                      onChange={(e) => setParams({ ...params, growingTreeMix: parseFloat(e.target.value) })}
+                      className="w-full accent-emerald-500"
+                    />
+                  </div>
+                )}
+              </>
+            )}
+            {params.algorithm === 'tone' && (
+              <>
+                <div className="space-y-1">
+                  <div className="flex justify-between text-[10px] text-slate-500 font-bold uppercase">
+                    <span>Tone Influence</span>
+                    <span>{params.toneInfluence.toFixed(2)}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.05"
+                    value={params.toneInfluence}
+                    onChange={(e) => setParams({ ...params, toneInfluence: parseFloat(e.target.value) })}
+                    className="w-full accent-emerald-500"
+                  />
+                  <div className="flex justify-between text-[9px] text-slate-600">
+                    <span>Uniform</span>
+                    <span>Tangled darks</span>
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <div className="flex justify-between text-[10px] text-slate-500 font-bold uppercase">
+                    <span>Contour Following</span>
+                    <span>{params.edgeInfluence.toFixed(2)}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.05"
+                    value={params.edgeInfluence}
+                    onChange={(e) => setParams({ ...params, edgeInfluence: parseFloat(e.target.value) })}
+                    className="w-full accent-emerald-500"
+                  />
+                </div>
+              </>
+            )}
+            {params.tessellation === 'quad' && (
+              <div className="space-y-1">
+                <div className="flex justify-between text-[10px] text-slate-500 font-bold uppercase">
+                  <span>Weave (Crossings)</span>
+                  <span>{Math.round(params.weave * 100)}%</span>
+                </div>
+                <input
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  value={params.weave}
+                  onChange={(e) => setParams({ ...params, weave: parseFloat(e.target.value) })}
+                  className="w-full accent-emerald-500"
+                />
+                <div className="flex justify-between text-[9px] text-slate-600">
+                  <span>Flat</span>
+                  <span>Over/under in darks</span>
+                </div>
+              </div>
+            )}
+            <div className="space-y-1">
+              <div className="flex justify-between text-[10px] text-slate-500 font-bold uppercase">
+                <span>Braid (Loops)</span>
+                <span>{Math.round(params.braid * 100)}%</span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="1"
+                step="0.05"
+                value={params.braid}
+                onChange={(e) => setParams({ ...params, braid: parseFloat(e.target.value) })}
+                className="w-full accent-emerald-500"
+              />
+              <div className="flex justify-between text-[9px] text-slate-600">
+                <span>Perfect maze</span>
+                <span>Fewest dead ends</span>
+              </div>
+            </div>
+            {params.braid > 0 && (
+              <div className="space-y-1">
+                <div className="flex justify-between text-[10px] text-slate-500 font-bold uppercase">
+                  <span>Braid Highlights First</span>
+                  <span>{params.braidBias.toFixed(2)}</span>
+                </div>
+                <input
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  value={params.braidBias}
+                  onChange={(e) => setParams({ ...params, braidBias: parseFloat(e.target.value) })}
+                  className="w-full accent-emerald-500"
+                />
+              </div>
+            )}
+            <div className="space-y-1">
+              <div className="flex justify-between text-[10px] text-slate-500 font-bold uppercase">
+                <span>Target Difficulty</span>
+                <span>{params.targetDifficulty > 0 ? `${params.targetDifficulty}/100` : 'Off'}</span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="100"
+                step="1"
+                value={params.targetDifficulty}
+                onChange={(e) => setParams({ ...params, targetDifficulty: parseInt(e.target.value) })}
+                className="w-full accent-emerald-500"
+              />
+              <div className="flex justify-between text-[9px] text-slate-600">
+                <span>Off</span>
+                <span>Re-carve toward score</span>
+              </div>
+            </div>
+            {params.targetDifficulty > 0 && (
+              <>
+                <div className="space-y-1">
+                  <div className="flex justify-between text-[10px] text-slate-500 font-bold uppercase">
+                    <span>Search Time</span>
+                    <span>{(params.targetBudget / 1000).toFixed(1)}s</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="500"
+                    max="15000"
+                    step="500"
+                    value={params.targetBudget}
+                    onChange={(e) => setParams({ ...params, targetBudget: parseInt(e.target.value) })}
+                    className="w-full accent-emerald-500"
+                  />
+                </div>
+                <div className="flex items-center gap-2 pt-1">
+                  <input
+                    type="checkbox"
+                    checked={params.targetVaryAlgorithm}
+                    onChange={(e) => setParams({ ...params, targetVaryAlgorithm: e.target.checked })}
+                    className="rounded border-slate-700 bg-slate-900"
+                  />
+                  <span className="text-xs text-slate-400">Try other algorithms</span>
+                </div>
+                {mazeData.current.target && (
+                  <button
+                    onClick={() => {
+                      // The shown maze already is this seed's, so nothing needs regenerating
+                      const { seed, algorithm } = mazeData.current.target!;
+                      setParams({ ...params, seed, algorithm, targetDifficulty: 0 });
+                      setStatus(`Seed ${seed} kept; difficulty targeting is off.`);
+                    }}
+                    className="w-full py-1.5 px-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded text-xs font-bold flex items-center justify-center gap-1 transition-all"
+                    title="Write the found seed and algorithm into the settings and turn targeting off"
+                  >
+                    <Dices size={12} /> Use Seed {mazeData.current.target.seed}
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+
+          {/* Entrances & Exits Panel */}
+          <div className="space-y-4 p-4 bg-gradient-to-br from-rose-900/20 to-pink-900/20 rounded-xl border border-rose-500/20">
+            <label className="flex items-center gap-2 text-xs font-bold text-rose-400 uppercase">
+              <DoorOpen size={14} /> Entrances & Exits
+            </label>
+
+            <div className="space-y-1">
+              <div className="text-[10px] text-slate-500 font-bold uppercase">Layout</div>
+              <select
+                value={params.endpointLayout}
+                onChange={(e) => {
+                  setParams({ ...params, endpointLayout: e.target.value as EndpointLayout });
+                  setEndpointPick(null);
+                }}
+                className="w-full bg-slate-900 border border-slate-700 rounded p-1.5 text-xs text-slate-200 focus:outline-none"
+              >
+                {ENDPOINT_LAYOUTS.map(({ id, label }) => (
+                  <option key={id} value={id}>{label}</option>
+                ))}
+              </select>
+            </div>
+
+            {params.endpointLayout === 'custom' && (
+              <>
+                <div className="flex items-center gap-2">
+                  {[
+                    { pick: 'start' as const, label: 'Pick Start' },
+                    { pick: 'exit' as const, label: 'Add Exits' },
+                  ].map(({ pick, label }) => (
+                    <button
+                      key={pick}
+                      onClick={() => {
+                        setEndpointPick(endpointPick === pick ? null : pick);
+                        setIsPathEditMode(false);
+                        setPaintMode(null);
+                      }}
+                      className={`flex-1 py-2 rounded-lg font-bold text-xs transition-all ${
+                        endpointPick === pick
+                          ? 'bg-rose-600 text-white'
+                          : 'bg-slate-800 text-slate-300 hover:bg-slate-700'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                  <button
+                    onClick={() => {
+                      setStartPoint(null);
+                      setExitPoints([]);
+                    }}
+                    disabled={!startPoint && exitPoints.length === 0}
+                    className="py-2 px-3 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-300 rounded-lg text-xs font-bold"
+                  >
+                    Clear
+                  </button>
+                </div>
+
+                {endpointPick && (
+                  <div className="text-xs text-slate-400 space-y-1">
+                    <p>Click a border cell to open it{endpointPick === 'exit' ? ', or an inner cell for an interior goal' : ''}</p>
+                    {endpointPick === 'exit' && <p>Each click adds another exit</p>}
+                  </div>
+                )}
+
+                <div className="text-xs text-slate-500">
+                  {startPoint ? 'Start picked' : 'Start: top center'}
+                  {' · '}
+                  {exitPoints.length === 0
+                    ? 'exit: bottom center'
+                    : `${exitPoints.length} exit${exitPoints.length === 1 ? '' : 's'} picked`}
+                </div>
+              </>
+            )}
           </div>
 
           {/* Custom Solution Path Panel */}
@@ -1338,7 +1694,11 @@ const App = () => {
 
             <div className="flex items-center gap-2">
               <button
-                onClick={() => setIsPathEditMode(!isPathEditMode)}
+                onClick={() => {
+                  setIsPathEditMode(!isPathEditMode);
+                  setPaintMode(null);
+                  setEndpointPick(null);
+                }}
                 className={`flex-1 py-2 rounded-lg font-bold text-xs transition-all ${
                   isPathEditMode
                     ? 'bg-amber-600 text-white'
@@ -1357,15 +1717,60 @@ const App = () => {
             </div>
 
             {isPathEditMode && (
-              <div className="text-xs text-slate-400 space-y-1">
-                <p>Click canvas to add waypoints</p>
-                <p>Right-click to remove last</p>
-              </div>
+              <>
+                <div className="flex gap-1">
+                  {[
+                    { tool: 'points' as const, label: 'Points' },
+                    { tool: 'draw' as const, label: 'Draw' },
+                    { tool: 'erase' as const, label: 'Erase' },
+                  ].map(({ tool, label }) => (
+                    <button
+                      key={tool}
+                      onClick={() => setPathTool(tool)}
+                      className={`flex-1 py-1.5 rounded text-[10px] font-bold uppercase transition-all ${
+                        pathTool === tool
+                          ? 'bg-amber-600 text-white'
+                          : 'bg-slate-800 text-slate-400 hover:bg-slate-700'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <div className="text-xs text-slate-400 space-y-1">
+                  {pathTool === 'points' && (
+                    <>
+                      <p>Click or tap to add a waypoint at the end</p>
+                      <p>Drag a waypoint to move it</p>
+                      <p>Click the dashed line to insert one</p>
+                      <p>Right-click a waypoint to delete it</p>
+                    </>
+                  )}
+                  {pathTool === 'draw' && <p>Draw a stroke; it becomes waypoints added to the end</p>}
+                  {pathTool === 'erase' && <p>Click or tap a waypoint to delete it</p>}
+                </div>
+              </>
             )}
 
+            <div className="space-y-1">
+              <div className="text-[10px] text-slate-500 font-bold uppercase">Automatic Route</div>
+              <select
+                value={params.solutionRoute}
+                onChange={(e) => setParams({ ...params, solutionRoute: e.target.value as SolutionRoute })}
+                disabled={waypoints.length >= 2}
+                className="w-full bg-slate-900 border border-slate-700 rounded p-1.5 text-xs text-slate-200 focus:outline-none disabled:opacity-50"
+              >
+                {SOLUTION_ROUTES.map(({ id, label }) => (
+                  <option key={id} value={id}>{label}</option>
+                ))}
+              </select>
+            </div>
+
             <div className="text-xs">
               {waypoints.length === 0 && (
-                <span className="text-slate-500">No waypoints set (uses default path)</span>
+                <span className="text-slate-500">
+                  No waypoints set ({params.solutionRoute === 'contour' ? 'traces contours' : 'uses default path'})
+                </span>
               )}
               {waypoints.length === 1 && (
                 <span className="text-amber-400">1 waypoint (need at least 2)</span>
@@ -1388,6 +1793,201 @@ const App = () => {
             )}
           </div>
 
+          {/* Shape Mask Panel */}
+          <div className="space-y-4 p-4 bg-gradient-to-br from-emerald-900/20 to-teal-900/20 rounded-xl border border-emerald-500/20">
+            <label className="flex items-center gap-2 text-xs font-bold text-emerald-400 uppercase">
+              <Brush size={14} /> Shape Mask
+            </label>
+
+            <div className="space-y-1">
+              <div className="text-[10px] text-slate-500 font-bold uppercase">Maze Outline</div>
+              <select
+                value={params.maskMode}
+                onChange={(e) => setParams({ ...params, maskMode: e.target.value as MaskMode })}
+                className="w-full bg-slate-900 border border-slate-700 rounded p-1.5 text-xs text-slate-200 focus:outline-none"
+              >
+                {MASK_MODES.map(({ id, label }) => (
+                  <option key={id} value={id}>{label}</option>
+                ))}
+              </select>
+            </div>
+
+            {params.maskMode === 'threshold' && (
+              <div className="space-y-1">
+                <div className="flex justify-between text-[10px] text-slate-500 font-bold uppercase">
+                  <span>Background Threshold</span>
+                  <span>{params.maskThreshold}</span>
+                </div>
+                <input
+                  type="range"
+                  min="0"
+                  max="255"
+                  step="1"
+                  value={params.maskThreshold}
+                  onChange={(e) => setParams({ ...params, maskThreshold: parseInt(e.target.value) })}
+                  className="w-full accent-emerald-500"
+                />
+                <div className="flex justify-between text-[9px] text-slate-600">
+                  <span>Dark backdrop</span>
+                  <span>White backdrop</span>
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => {
+                  setPaintMode(paintMode === 'mask' ? null : 'mask');
+                  setIsPathEditMode(false);
+                  setEndpointPick(null);
+                }}
+                className={`flex-1 py-2 rounded-lg font-bold text-xs transition-all ${
+                  paintMode === 'mask'
+                    ? 'bg-emerald-600 text-white'
+                    : 'bg-slate-800 text-slate-300 hover:bg-slate-700'
+                }`}
+              >
+                {paintMode === 'mask' ? 'Done Painting' : 'Paint Mask'}
+              </button>
+              <button
+                onClick={() => setMaskStrokes([])}
+                disabled={maskStrokes.length === 0}
+                className="py-2 px-3 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-300 rounded-lg text-xs font-bold"
+              >
+                Clear
+              </button>
+            </div>
+
+            {paintMode === 'mask' && (
+              <>
+                <div className="space-y-1">
+                  <div className="flex justify-between text-[10px] text-slate-500 font-bold uppercase">
+                    <span>Brush Size</span>
+                    <span>{maskBrush.radius}px</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="4"
+                    max="120"
+                    step="2"
+                    value={maskBrush.radius}
+                    onChange={(e) => setMaskBrush({ ...maskBrush, radius: parseInt(e.target.value) })}
+                    className="w-full accent-emerald-500"
+                  />
+                </div>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={maskBrush.erase}
+                    onChange={(e) => setMaskBrush({ ...maskBrush, erase: e.target.checked })}
+                    className="rounded border-slate-700 bg-slate-900"
+                  />
+                  <span className="text-xs text-slate-400">Erase (cut from the mask)</span>
+                </div>
+                <p className="text-xs text-slate-400">Drag on the canvas to paint</p>
+              </>
+            )}
+
+            <div className="text-xs text-slate-500">
+              {maskStrokes.length === 0
+                ? params.maskMode === 'paint' ? 'Paint the area the maze should fill' : 'No painted strokes'
+                : `${maskStrokes.length} stroke${maskStrokes.length === 1 ? '' : 's'} painted`}
+            </div>
+          </div>
+
+          {/* Importance Brush Panel */}
+          <div className="space-y-4 p-4 bg-gradient-to-br from-blue-900/20 to-indigo-900/20 rounded-xl border border-blue-500/20">
+            <label className="flex items-center gap-2 text-xs font-bold text-blue-400 uppercase">
+              <Focus size={14} /> Detail Brush
+            </label>
+
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => {
+                  setPaintMode(paintMode === 'importance' ? null : 'importance');
+                  setIsPathEditMode(false);
+                  setEndpointPick(null);
+                }}
+                className={`flex-1 py-2 rounded-lg font-bold text-xs transition-all ${
+                  paintMode === 'importance'
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-slate-800 text-slate-300 hover:bg-slate-700'
+                }`}
+              >
+                {paintMode === 'importance' ? 'Done Painting' : 'Paint Detail'}
+              </button>
+              <button
+                onClick={() => setImportanceStrokes([])}
+                disabled={importanceStrokes.length === 0}
+                className="py-2 px-3 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-300 rounded-lg text-xs font-bold"
+              >
+                Clear
+              </button>
+            </div>
+
+            {paintMode === 'importance' && (
+              <>
+                <div className="flex gap-2">
+                  {[
+                    { sign: 1, label: 'More detail' },
+                    { sign: -1, label: 'Less detail' },
+                  ].map(({ sign, label }) => (
+                    <button
+                      key={sign}
+                      onClick={() => setImportanceBrush({ ...importanceBrush, amount: sign * Math.abs(importanceBrush.amount) })}
+                      className={`flex-1 py-1.5 rounded text-xs font-bold transition-all ${
+                        Math.sign(importanceBrush.amount) === sign
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-slate-800 text-slate-400 hover:bg-slate-700'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <div className="space-y-1">
+                  <div className="flex justify-between text-[10px] text-slate-500 font-bold uppercase">
+                    <span>Strength</span>
+                    <span>{Math.round(Math.abs(importanceBrush.amount) * 100)}%</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0.1"
+                    max="1"
+                    step="0.05"
+                    value={Math.abs(importanceBrush.amount)}
+                    onChange={(e) =>
+                      setImportanceBrush({ ...importanceBrush, amount: Math.sign(importanceBrush.amount) * parseFloat(e.target.value) })
+                    }
+                    className="w-full accent-blue-500"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <div className="flex justify-between text-[10px] text-slate-500 font-bold uppercase">
+                    <span>Brush Size</span>
+                    <span>{importanceBrush.radius}px</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="4"
+                    max="160"
+                    step="2"
+                    value={importanceBrush.radius}
+                    onChange={(e) => setImportanceBrush({ ...importanceBrush, radius: parseInt(e.target.value) })}
+                    className="w-full accent-blue-500"
+                  />
+                </div>
+                <p className="text-xs text-slate-400">Drag over areas that need finer or coarser cells</p>
+              </>
+            )}
+
+            <div className="text-xs text-slate-500">
+              {importanceStrokes.length === 0
+                ? 'Detail follows the global settings'
+                : `${importanceStrokes.length} stroke${importanceStrokes.length === 1 ? '' : 's'} painted`}
+            </div>
+          </div>
+
           <div className="space-y-4 p-4 bg-slate-800/30 rounded-xl border border-white/5">
             <label className="flex items-center gap-2 text-xs font-bold text-slate-400 uppercase">
               <Sliders size={14} /> 4. Ink Weight (Live)
@@ -1424,6 +2024,66 @@ const App = () => {
                 className="w-full accent-blue-400"
               />
             </div>
+            <div className="space-y-1">
+              <div className="flex justify-between text-[10px] text-slate-500 font-bold uppercase">
+                <span>Contour Warp</span>
+                <span>{params.warpStrength === 0 ? 'Off' : params.warpStrength.toFixed(1)}</span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="2"
+                step="0.1"
+                value={params.warpStrength}
+                onChange={(e) => setParams({ ...params, warpStrength: parseFloat(e.target.value) })}
+                className="w-full accent-purple-400"
+              />
+            </div>
+            <div className="space-y-1">
+              <div className="flex justify-between text-[10px] text-slate-500 font-bold uppercase">
+                <span>Noise: Macro Sway</span>
+                <span>{params.noiseMacro === 0 ? 'Off' : `${params.noiseMacro}px`}</span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="20"
+                step="0.5"
+                value={params.noiseMacro}
+                onChange={(e) => setParams({ ...params, noiseMacro: parseFloat(e.target.value) })}
+                className="w-full accent-purple-400"
+              />
+            </div>
+            <div className="space-y-1">
+              <div className="flex justify-between text-[10px] text-slate-500 font-bold uppercase">
+                <span>Noise: Organic Flow</span>
+                <span>{params.noiseMedium === 0 ? 'Off' : `${params.noiseMedium}px`}</span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="6"
+                step="0.25"
+                value={params.noiseMedium}
+                onChange={(e) => setParams({ ...params, noiseMedium: parseFloat(e.target.value) })}
+                className="w-full accent-purple-400"
+              />
+            </div>
+            <div className="space-y-1">
+              <div className="flex justify-between text-[10px] text-slate-500 font-bold uppercase">
+                <span>Noise: Pen Texture</span>
+                <span>{params.noiseFine === 0 ? 'Off' : `${params.noiseFine}px`}</span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="2"
+                step="0.1"
+                value={params.noiseFine}
+                onChange={(e) => setParams({ ...params, noiseFine: parseFloat(e.target.value) })}
+                className="w-full accent-purple-400"
+              />
+            </div>
             <div className="flex items-center gap-2 pt-2">
               <input
                 type="checkbox"
@@ -1433,6 +2093,18 @@ const App = () => {
               />
               <span className="text-xs text-slate-300 font-bold">Ghost Original</span>
             </div>
+            <div className="space-y-1">
+              <div className="text-[10px] text-slate-500 font-bold uppercase">Diagnostic Overlay</div>
+              <select
+                value={params.overlay}
+                onChange={(e) => setParams({ ...params, overlay: e.target.value as DiagnosticOverlay })}
+                className="w-full bg-slate-900 border border-slate-700 rounded p-1.5 text-xs text-slate-200 focus:outline-none"
+              >
+                {DIAGNOSTIC_OVERLAYS.map(({ id, label }) => (
+                  <option key={id} value={id}>{label}</option>
+                ))}
+              </select>
+            </div>
           </div>
 
           {/* AxiDraw Plotter Panel */}
@@ -1534,6 +2206,18 @@ const App = () => {
                     <span className="text-xs text-slate-400">Invert Pen Lift</span>
                   </div>
 
+                  {/* Entrance/exit arrows */}
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={plotterSettings.plotMarkers}
+                      onChange={(e) => setPlotterSettings({ ...plotterSettings, plotMarkers: e.target.checked })}
+                      disabled={plotterStatus.state === 'plotting'}
+                      className="rounded border-slate-700 bg-slate-900"
+                    />
+                    <span className="text-xs text-slate-400">Plot START/END arrows</span>
+                  </div>
+
                   {/* Pen Up Height */}
                   <div className="space-y-1">
                     <div className="flex justify-between items-center">
@@ -1726,19 +2410,22 @@ const App = () => {
 
         <div className="mt-auto space-y-2 pb-4">
           <div className="flex gap-2">
-            <button
-              onClick={generateMaze}
-              disabled={!image || isGenerating}
-              className="flex-1 py-3 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded-xl font-bold flex items-center justify-center gap-2 transition-all shadow-lg active:scale-95"
-            >
-              {isGenerating ? (
-                'Building Structure...'
-              ) : (
-                <>
-                  <Play size={18} /> Generate Maze
-                </>
-              )}
-            </button>
+            {isGenerating ? (
+              <button
+                onClick={cancelGeneration}
+                className="flex-1 py-3 bg-slate-700 hover:bg-slate-600 text-white rounded-xl font-bold flex items-center justify-center gap-2 transition-all shadow-lg active:scale-95"
+              >
+                <X size={18} /> Cancel
+              </button>
+            ) : (
+              <button
+                onClick={generateMaze}
+                disabled={!image}
+                className="flex-1 py-3 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded-xl font-bold flex items-center justify-center gap-2 transition-all shadow-lg active:scale-95"
+              >
+                <Play size={18} /> Generate Maze
+              </button>
+            )}
             <button
               onClick={clearMaze}
               disabled={!mazeData.current.nodes.length || isGenerating}
@@ -1795,19 +2482,90 @@ const App = () => {
             ref={canvasRef}
             width={mazeData.current.width || params.resolution}
             height={mazeData.current.height || params.resolution}
-            className={`w-full h-auto bg-white rounded-2xl shadow-2xl transition-transform duration-500 ${isPathEditMode ? 'cursor-crosshair' : ''}`}
-            onClick={handleCanvasClick}
-            onContextMenu={handleCanvasRightClick}
+            className={`w-full h-auto bg-white rounded-2xl shadow-2xl transition-transform duration-500 ${isPathEditMode || paintMode || endpointPick ? 'cursor-crosshair touch-none' : ''}`}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            onContextMenu={handleCanvasContextMenu}
           />
+          {heatmap && !isGenerating && (
+            <div className="absolute bottom-3 left-3 w-48 p-2 bg-slate-900/80 rounded-lg space-y-1 pointer-events-none">
+              <div className="text-[10px] text-slate-300 font-bold uppercase">
+                {DIAGNOSTIC_OVERLAYS.find(({ id }) => id === params.overlay)?.label}
+              </div>
+              <div className="h-2 rounded-full" style={{ background: HEAT_GRADIENT }} />
+              <div className="flex justify-between text-[9px] text-slate-400">
+                <span>{formatHeat(heatmap.min)}</span>
+                <span>{formatHeat(heatmap.max)} {heatmap.unit}</span>
+              </div>
+            </div>
+          )}
           {isGenerating && (
             <div className="absolute inset-0 bg-white/60 backdrop-blur-sm rounded-2xl flex flex-col items-center justify-center gap-4 z-20">
               <div className="w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
               <p className="text-blue-600 font-bold uppercase tracking-widest text-xs animate-pulse">
                 {status}
               </p>
+              {targetProgress && (
+                <div className="w-48 h-1.5 bg-blue-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-blue-500 transition-all" style={{ width: `${targetProgress.fraction * 100}%` }} />
+                </div>
+              )}
+              <button
+                onClick={cancelGeneration}
+                className="py-1.5 px-3 bg-slate-800 hover:bg-slate-700 text-white rounded-lg text-xs font-bold flex items-center gap-1 transition-all"
+              >
+                <X size={12} /> Cancel
+              </button>
             </div>
           )}
         </div>
+        {!isGenerating && (
+          <p className="max-w-xl text-center text-xs text-slate-400">{status}</p>
+        )}
+        {stats && !isGenerating && (
+          <div className="w-full max-w-3xl p-4 bg-slate-950/60 rounded-xl border border-white/5 space-y-3">
+            <div className="flex items-center justify-between">
+              <label className="flex items-center gap-2 text-xs font-bold text-slate-400 uppercase">
+                <Gauge size={14} /> Maze Statistics
+              </label>
+              <span className="text-xs font-bold text-slate-300">
+                Difficulty{' '}
+                <span
+                  className={
+                    stats.difficulty === 'Easy'
+                      ? 'text-green-400'
+                      : stats.difficulty === 'Medium'
+                        ? 'text-amber-400'
+                        : stats.difficulty === 'Hard'
+                          ? 'text-orange-400'
+                          : 'text-red-400'
+                  }
+                >
+                  {stats.score}/100 · {stats.difficulty}
+                </span>
+              </span>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-x-4 gap-y-2 text-xs">
+              {[
+                ['Cells', stats.cells.toLocaleString()],
+                ['Cell size', `${stats.minCellSize.toFixed(1)}–${stats.maxCellSize.toFixed(1)} px`],
+                ['Solution', `${stats.solutionCells} cells`],
+                [`Solution on ${plotterSettings.paperSize}`, `${Math.round(stats.solutionLength * mmPerPx)} mm`],
+                ['Dead ends', stats.deadEnds.toLocaleString()],
+                ['Dead-end depth', stats.deadEndDepth.toFixed(1)],
+                ['Branching', stats.branching.toFixed(2)],
+                ['Turns', stats.turns.toLocaleString()],
+              ].map(([label, value]) => (
+                <div key={label}>
+                  <div className="text-[10px] text-slate-500 font-bold uppercase">{label}</div>
+                  <div className="text-slate-200">{value}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
         <div className="flex items-center gap-4 text-[10px] font-bold text-slate-500 uppercase tracking-widest bg-slate-900/50 px-4 py-2 rounded-full border border-white/5">
           <span className="flex items-center gap-1">
             <Maximize size={10} /> {mazeData.current.width || params.resolution} x {mazeData.current.height || params.resolution}
@@ -3,41 +3,12 @@
  */
 
 import { Plotter, PlotSegment } from './plotter';
+import { arcPoints, extractWalls, getMazeWarp, markGlyph, portalMarks } from '../maze';
+import type { MazeData, MazeWall, DeformOptions } from '../maze';
 
 // Re-export for convenience
 export type { PlotSegment };
-
-/**
- * Maze node structure (matching App.tsx)
- */
-export interface MazeNode {
-  id: number;
-  x: number;
-  y: number;
-  w: number;
-  h: number;
-  rawBrightness: number;
-  visited: boolean;
-  neighbors: { node: MazeNode; side: string; mid: { x: number; y: number } }[];
-  connections: Map<MazeNode, { x: number; y: number }>;
-}
-
-export interface MazeData {
-  nodes: MazeNode[];
-  solution: MazeNode[];
-  startNode: MazeNode | null;
-  endNode: MazeNode | null;
-  width: number;
-  height: number;
-}
-
-interface WallSegment {
-  x1: number;
-  y1: number;
-  x2: number;
-  y2: number;
-  brightness: number;
-}
+export type { MazeNode, MazeData } from '../maze';
 
 /**
  * Generate plot segments from maze data
@@ -50,17 +21,41 @@ export function generatePlotJob(
     shadingIntensity?: number;
     minStroke?: number;
     maxStroke?: number;
-  } = {}
+    markers?: boolean;  // draw START/END arrows (strokes only, no lettering)
+  } & Partial<DeformOptions> = {}
 ): PlotSegment[] {
   const {
     wallThickness = 1.2,
     shadingIntensity = 2.0,
     minStroke = 0.5,
     maxStroke = 3,
+    markers = false,
+    warpStrength = 0,
+    noiseMacro = 0,
+    noiseMedium = 0,
+    noiseFine = 0,
   } = options;
 
-  // First, extract all wall segments with their brightness
-  const walls = extractWalls(mazeData);
+  // First, extract all walls (same geometry as the canvas and SVG)
+  const warp = getMazeWarp(mazeData, { warpStrength, noiseMacro, noiseMedium, noiseFine });
+  const walls = extractWalls(mazeData, warp);
+
+  // Re-flatten curved walls so no chord strays more than half a motor step
+  const left = plotter.mazeToSteps(0, 0, mazeData.width, mazeData.height);
+  const right = plotter.mazeToSteps(mazeData.width, 0, mazeData.width, mazeData.height);
+  const stepsPerPx = Math.max(1, right.x - left.x) / mazeData.width;
+  const arcTolerance = 0.5 / stepsPerPx;
+  walls.forEach((wall) => {
+    if (wall.arc) wall.points = arcPoints(wall.arc, arcTolerance);
+  });
+
+  // Entrance/exit arrows at the lightest pen weight, oriented like the canvas and SVG
+  if (markers) {
+    for (const mark of portalMarks(mazeData, warp)) {
+      const { shaft, head } = markGlyph(mark);
+      walls.push({ points: shaft, brightness: 255 }, { points: head, brightness: 255 });
+    }
+  }
 
   // Sort walls for optimal plotting path (minimize travel)
   const sortedWalls = optimizePath(walls);
@@ -69,20 +64,24 @@ export function generatePlotJob(
   let segments: PlotSegment[] = [];
 
   for (const wall of sortedWalls) {
-    const start = plotter.mazeToSteps(wall.x1, wall.y1, mazeData.width, mazeData.height);
-    const end = plotter.mazeToSteps(wall.x2, wall.y2, mazeData.width, mazeData.height);
-
     // Calculate stroke width based on brightness
     const strokeWidth = calculateStrokeWidth(wall.brightness, wallThickness, shadingIntensity);
     const penHeight = plotter.strokeToHeight(strokeWidth, minStroke, maxStroke);
 
-    segments.push({
-      x1: start.x,
-      y1: start.y,
-      x2: end.x,
-      y2: end.y,
-      penHeight,
-    });
+    const steps = wall.points.map((p) => plotter.mazeToSteps(p.x, p.y, mazeData.width, mazeData.height));
+    for (let i = 0; i < steps.length - 1; i++) {
+      const start = steps[i];
+      const end = steps[i + 1];
+      // Warped polylines can collapse to a single step; skip those
+      if (start.x === end.x && start.y === end.y) continue;
+      segments.push({
+        x1: start.x,
+        y1: start.y,
+        x2: end.x,
+        y2: end.y,
+        penHeight,
+      });
+    }
   }
 
   // Further reduce pen lifts by stitching segments that share endpoints into continuous chains.
@@ -226,110 +225,13 @@ function stitchSegmentsIntoChains(segments: PlotSegment[]): PlotSegment[] {
   return ordered;
 }
 
-/**
- * Extract wall segments from maze data
- * Based on renderMaze logic in App.tsx
- */
-function extractWalls(mazeData: MazeData): WallSegment[] {
-  const walls: WallSegment[] = [];
-  const { nodes } = mazeData;
-
-  for (const node of nodes) {
-    const { x, y, w, h, rawBrightness, neighbors, connections } = node;
-
-    // Check each side for walls
-    const sides = ['top', 'right', 'bottom', 'left'];
-
-    for (const side of sides) {
-      // Find neighbor on this side
-      const neighborInfo = neighbors.find(n => n.side === side);
-
-      // Draw wall if:
-      // 1. No neighbor on this side (edge of maze), OR
-      // 2. Has neighbor but no connection (wall not removed by maze algorithm)
-      const hasNeighbor = neighborInfo !== undefined;
-      const hasConnection = hasNeighbor && connections.has(neighborInfo.node);
-
-      if (!hasNeighbor || !hasConnection) {
-        // Calculate wall endpoints based on side
-        let x1: number, y1: number, x2: number, y2: number;
-
-        switch (side) {
-          case 'top':
-            x1 = x;
-            y1 = y;
-            x2 = x + w;
-            y2 = y;
-            break;
-          case 'right':
-            x1 = x + w;
-            y1 = y;
-            x2 = x + w;
-            y2 = y + h;
-            break;
-          case 'bottom':
-            x1 = x;
-            y1 = y + h;
-            x2 = x + w;
-            y2 = y + h;
-            break;
-          case 'left':
-            x1 = x;
-            y1 = y;
-            x2 = x;
-            y2 = y + h;
-            break;
-          default:
-            continue;
-        }
-
-        walls.push({
-          x1,
-          y1,
-          x2,
-          y2,
-          brightness: rawBrightness,
-        });
-      }
-    }
-  }
-
-  // Remove duplicate walls (shared edges)
-  return deduplicateWalls(walls);
-}
-
-/**
- * Remove duplicate walls (when two cells share an edge, both will report the wall)
- */
-function deduplicateWalls(walls: WallSegment[]): WallSegment[] {
-  const seen = new Set<string>();
-  const unique: WallSegment[] = [];
-
-  for (const wall of walls) {
-    // Normalize wall direction (always left-to-right or top-to-bottom)
-    let x1 = wall.x1, y1 = wall.y1, x2 = wall.x2, y2 = wall.y2;
-    if (x1 > x2 || (x1 === x2 && y1 > y2)) {
-      [x1, x2] = [x2, x1];
-      [y1, y2] = [y2, y1];
-    }
-
-    const key = `${x1},${y1}-${x2},${y2}`;
-    if (!seen.has(key)) {
-      seen.add(key);
-      unique.push({ ...wall, x1, y1, x2, y2 });
-    }
-  }
-
-  return unique;
-}
-
 /**
  * Optimize path to minimize pen travel (greedy nearest neighbor)
  */
-function optimizePath(walls: WallSegment[]): WallSegment[] {
+function optimizePath(walls: MazeWall[]): MazeWall[] {
   if (walls.length === 0) return [];
 
-  const result: WallSegment[] = [];
+  const result: MazeWall[] = [];
   const remaining = [...walls];
 
   // Start from origin
@@ -343,10 +245,12 @@ function optimizePath(walls: WallSegment[]): WallSegment[] {
     let useReverse = false;
 
     for (let i = 0; i < remaining.length; i++) {
-      const wall = remaining[i];
+      const { points } = remaining[i];
+      const first = points[0];
+      const last = points[points.length - 1];
 
       // Check distance to wall start
-      const dist1 = Math.hypot(wall.x1 - currentX, wall.y1 - currentY);
+      const dist1 = Math.hypot(first.x - currentX, first.y - currentY);
       if (dist1 < nearestDist) {
         nearestDist = dist1;
         nearestIdx = i;
@@ -354,7 +258,7 @@ function optimizePath(walls: WallSegment[]): WallSegment[] {
       }
 
       // Check distance to wall end
-      const dist2 = Math.hypot(wall.x2 - currentX, wall.y2 - currentY);
+      const dist2 = Math.hypot(last.x - currentX, last.y - currentY);
       if (dist2 < nearestDist) {
         nearestDist = dist2;
         nearestIdx = i;
@@ -362,24 +266,13 @@ function optimizePath(walls: WallSegment[]): WallSegment[] {
       }
     }
 
-    // Add wall to result
+    // Add wall to result, reversed if that minimizes travel
     const wall = remaining.splice(nearestIdx, 1)[0];
-    if (useReverse) {
-      // Swap endpoints to minimize travel
-      result.push({
-        ...wall,
-        x1: wall.x2,
-        y1: wall.y2,
-        x2: wall.x1,
-        y2: wall.y1,
-      });
-      currentX = wall.x1;
-      currentY = wall.y1;
-    } else {
-      result.push(wall);
-      currentX = wall.x2;
-      currentY = wall.y2;
-    }
+    const oriented = useReverse ? { ...wall, points: wall.points.slice().reverse() } : wall;
+    result.push(oriented);
+    const end = oriented.points[oriented.points.length - 1];
+    currentX = end.x;
+    currentY = end.y;
   }
 
   return result;
@@ -0,0 +1,335 @@
+/**
+ * Spanning-tree carving algorithms over the MazeNode neighbor graph.
+ *
+ * Every carver treats nodes already marked `visited` (the start node plus
+ * any forced waypoint path) as the initial tree and grows it until every
+ * reachable node is included.
+ */
+
+import { carveDFS } from './carve';
+import { RandomFn } from './random';
+import { MazeNeighbor, MazeNode } from './types';
+
+export type CarveAlgorithm = 'backtracker' | 'wilson' | 'kruskal' | 'prim' | 'growing-tree' | 'tone';
+
+export type GrowingTreePick = 'newest' | 'oldest' | 'random' | 'mixed';
+
+export const CARVE_ALGORITHMS: { id: CarveAlgorithm; label: string }[] = [
+  { id: 'backtracker', label: 'Recursive Backtracker' },
+  { id: 'wilson', label: "Wilson's (Uniform)" },
+  { id: 'kruskal', label: 'Randomized Kruskal' },
+  { id: 'prim', label: 'Randomized Prim' },
+  { id: 'growing-tree', label: 'Growing Tree' },
+  { id: 'tone', label: 'Tone-Aware' },
+];
+
+export interface CarveOptions {
+  algorithm: CarveAlgorithm;
+  growingTreePick: GrowingTreePick;
+  growingTreeMix: number;  // 0-1, share of 'newest' picks in 'mixed' mode
+  toneInfluence: number;   // 0-1, how strongly brightness shapes corridors
+  edgeInfluence: number;   // 0-1, how strongly corridors avoid crossing edges
+}
+
+/**
+ * Carve passages with the selected algorithm
+ */
+export function carveMaze(
+  nodes: MazeNode[],
+  startNode: MazeNode,
+  random: RandomFn,
+  options: CarveOptions
+): void {
+  switch (options.algorithm) {
+    case 'wilson':
+      carveWilson(nodes, startNode, random);
+      break;
+    case 'kruskal':
+      carveKruskal(nodes, startNode, random);
+      break;
+    case 'prim':
+      carvePrim(nodes, startNode, random);
+      break;
+    case 'growing-tree':
+      carveGrowingTree(nodes, startNode, random, options.growingTreePick, options.growingTreeMix);
+      break;
+    case 'tone':
+      carveToneAware(nodes, startNode, random, options.toneInfluence, options.edgeInfluence);
+      break;
+    default:
+      carveDFS(startNode, random, nodes.filter((n) => n.visited && n !== startNode));
+  }
+}
+
+function link(a: MazeNode, info: MazeNeighbor): void {
+  a.connections.set(info.node, info.mid);
+  info.node.connections.set(a, info.mid);
+}
+
+/**
+ * Initial tree: start node first, then any pre-visited (forced) nodes
+ */
+function seedTree(nodes: MazeNode[], startNode: MazeNode): MazeNode[] {
+  startNode.visited = true;
+  return [startNode, ...nodes.filter((n) => n.visited && n !== startNode)];
+}
+
+/**
+ * Wilson's algorithm: loop-erased random walks produce a uniform spanning
+ * tree, with an even mix of short dead ends and branches
+ */
+export function carveWilson(nodes: MazeNode[], startNode: MazeNode, random: RandomFn): void {
+  seedTree(nodes, startNode);
+  const step = new Map<MazeNode, MazeNeighbor>();
+
+  for (const origin of nodes) {
+    if (origin.visited || origin.neighbors.length === 0) continue;
+
+    // Random walk until the tree is hit, remembering only the last exit from
+    // each node (which erases loops implicitly)
+    let curr = origin;
+    while (!curr.visited) {
+      const next = curr.neighbors[Math.floor(random() * curr.neighbors.length)];
+      step.set(curr, next);
+      curr = next.node;
+    }
+
+    // Retrace the loop-erased walk and add it to the tree
+    curr = origin;
+    while (!curr.visited) {
+      const next = step.get(curr)!;
+      curr.visited = true;
+      link(curr, next);
+      curr = next.node;
+    }
+  }
+}
+
+/**
+ * Randomized Kruskal: join random edges between disjoint sets, giving many
+ * short dead ends and a highly branched texture
+ */
+export function carveKruskal(nodes: MazeNode[], startNode: MazeNode, random: RandomFn): void {
+  const tree = seedTree(nodes, startNode);
+  const indexOf = new Map<MazeNode, number>();
+  nodes.forEach((n, i) => indexOf.set(n, i));
+
+  const parent = nodes.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  // The forced path is already connected, so it starts as one set
+  const root = indexOf.get(startNode)!;
+  for (const n of tree) parent[find(indexOf.get(n)!)] = find(root);
+
+  const edges: { a: MazeNode; info: MazeNeighbor }[] = [];
+  for (const a of nodes) {
+    for (const info of a.neighbors) {
+      if (a.id < info.node.id) edges.push({ a, info });
+    }
+  }
+
+  // Fisher-Yates shuffle
+  for (let i = edges.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [edges[i], edges[j]] = [edges[j], edges[i]];
+  }
+
+  for (const { a, info } of edges) {
+    const ra = find(indexOf.get(a)!);
+    const rb = find(indexOf.get(info.node)!);
+    if (ra === rb) continue;
+    parent[ra] = rb;
+    link(a, info);
+    a.visited = true;
+    info.node.visited = true;
+  }
+}
+
+/**
+ * Randomized Prim: grow the tree from a random frontier edge each step,
+ * giving short, radiating corridors
+ */
+export function carvePrim(nodes: MazeNode[], startNode: MazeNode, random: RandomFn): void {
+  const tree = seedTree(nodes, startNode);
+  const frontier: { from: MazeNode; info: MazeNeighbor }[] = [];
+  const addFrontier = (from: MazeNode) => {
+    for (const info of from.neighbors) {
+      if (!info.node.visited) frontier.push({ from, info });
+    }
+  };
+  tree.forEach(addFrontier);
+
+  while (frontier.length > 0) {
+    const i = Math.floor(random() * frontier.length);
+    const { from, info } = frontier[i];
+    frontier[i] = frontier[frontier.length - 1];
+    frontier.pop();
+
+    if (info.node.visited) continue;
+    info.node.visited = true;
+    link(from, info);
+    addFrontier(info.node);
+  }
+}
+
+/**
+ * Ordered list of active cells for growing-tree style carvers. Removed
+ * cells become holes (compacted once half the list is holes), so removal
+ * stays O(1) amortized while preserving age order.
+ */
+function createActiveList(initial: MazeNode[], random: RandomFn) {
+  let items: (MazeNode | null)[] = initial.slice();
+  let head = 0;
+  let holes = 0;
+
+  return {
+    isEmpty: () => head >= items.length,
+    get: (i: number) => items[i]!,
+    push: (node: MazeNode) => {
+      items.push(node);
+    },
+    newest: () => items.length - 1,
+    oldest: () => head,
+    random: () => {
+      let i: number;
+      do {
+        i = head + Math.floor(random() * (items.length - head));
+      } while (items[i] === null);
+      return i;
+    },
+    remove: (i: number) => {
+      items[i] = null;
+      holes++;
+      while (items.length > 0 && items[items.length - 1] === null) {
+        items.pop();
+        holes--;
+      }
+      while (head < items.length && items[head] === null) head++;
+      if (holes > (items.length - head) / 2) {
+        items = items.filter((n) => n !== null);
+        head = 0;
+        holes = 0;
+      }
+    },
+  };
+}
+
+/**
+ * Growing tree: keep a list of active cells and extend from one chosen by
+ * `pick`. 'newest' behaves like the backtracker, 'random' like Prim, and
+ * 'mixed' blends the two by `mix`.
+ */
+export function carveGrowingTree(
+  nodes: MazeNode[],
+  startNode: MazeNode,
+  random: RandomFn,
+  pick: GrowingTreePick,
+  mix: number
+): void {
+  const active = createActiveList(seedTree(nodes, startNode), random);
+
+  const chooseIndex = (): number => {
+    switch (pick) {
+      case 'oldest':
+        return active.oldest();
+      case 'random':
+        return active.random();
+      case 'mixed':
+        return random() < mix ? active.newest() : active.random();
+      default:
+        return active.newest();
+    }
+  };
+
+  while (!active.isEmpty()) {
+    const i = chooseIndex();
+    const curr = active.get(i);
+    const unvisited = curr.neighbors.filter((n) => !n.node.visited);
+    if (unvisited.length > 0) {
+      const next = unvisited[Math.floor(random() * unvisited.length)];
+      next.node.visited = true;
+      link(curr, next);
+      active.push(next.node);
+    } else {
+      active.remove(i);
+    }
+  }
+}
+
+/**
+ * Tone-aware growing tree. Brightness decides the corridor texture:
+ * - bright cells keep extending the newest corridor and favour going
+ *   straight, giving long sparse wandering paths
+ * - dark cells branch from random active cells and favour turning, giving
+ *   dense tangles of short dead ends
+ * Strong local edges discourage crossing tonal boundaries, so corridors
+ * tend to run along contours.
+ */
+export function carveToneAware(
+  nodes: MazeNode[],
+  startNode: MazeNode,
+  random: RandomFn,
+  toneInfluence: number,
+  edgeInfluence: number
+): void {
+  const active = createActiveList(seedTree(nodes, startNode), random);
+  const entrySide = new Map<MazeNode, string>();
+  const tone = (n: MazeNode) => n.rawBrightness / 255;
+
+  // Local edge strength: strongest tonal step to any adjacent cell (0-1)
+  const edgeStrength = new Map<MazeNode, number>();
+  for (const n of nodes) {
+    let maxStep = 0;
+    for (const nb of n.neighbors) maxStep = Math.max(maxStep, Math.abs(tone(n) - tone(nb.node)));
+    edgeStrength.set(n, maxStep);
+  }
+
+  while (!active.isEmpty()) {
+    // Dark cells give up their corridor more often and branch elsewhere
+    const newest = active.newest();
+    const branchChance = toneInfluence * (1 - tone(active.get(newest))) * 0.9;
+    const i = random() < branchChance ? active.random() : newest;
+    const curr = active.get(i);
+
+    const unvisited = curr.neighbors.filter((n) => !n.node.visited);
+    if (unvisited.length === 0) {
+      active.remove(i);
+      continue;
+    }
+
+    const b = tone(curr);
+    const edge = edgeStrength.get(curr)!;
+    const weights = unvisited.map((nb) => {
+      let w = 1;
+      const straight = nb.side === entrySide.get(curr);
+      // Bright: keep going straight. Dark: turn.
+      if (straight) w *= 1 + toneInfluence * b * 3;
+      else w *= 1 + toneInfluence * (1 - b) * 2;
+      // Near edges, avoid stepping across the tonal boundary
+      w *= Math.exp(-edgeInfluence * edge * Math.abs(b - tone(nb.node)) * 8);
+      return w;
+    });
+
+    const next = unvisited[weightedIndex(weights, random)];
+    next.node.visited = true;
+    entrySide.set(next.node, next.side);
+    link(curr, next);
+    active.push(next.node);
+  }
+}
+
+function weightedIndex(weights: number[], random: RandomFn): number {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  let r = random() * total;
+  for (let i = 0; i < weights.length; i++) {
+    r -= weights[i];
+    if (r < 0) return i;
+  }
+  return weights.length - 1;
+}
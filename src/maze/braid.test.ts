@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { solveBFS } from './carve';
+import { TESSELLATIONS } from './tessellation';
+import { generateTestMaze } from './testing';
+import { MazeParams } from './types';
+
+describe('braidMaze', () => {
+  // A contour route to the far exit is longer than the way to the near one
+  const contourToFarExit: Partial<MazeParams> = {
+    solutionRoute: 'contour',
+    endpointLayout: 'custom',
+    startPoint: { x: 0, y: 90 },
+    exitPoints: [{ x: 240, y: 170 }, { x: 40, y: 90 }],
+    braid: 1,
+  };
+
+  for (const { id: tessellation } of TESSELLATIONS) {
+    it(`keeps a contour-routed solution shortest on ${tessellation} cells`, () => {
+      for (const seed of [1, 2, 3]) {
+        const maze = generateTestMaze({ ...contourToFarExit, tessellation, seed });
+        expect(maze.braids, `seed ${seed}`).toBeGreaterThan(0);
+        expect(solveBFS(maze.startNode!, maze.endNode!).length, `seed ${seed}`).toBe(maze.solution.length);
+      }
+    }, 30_000);
+  }
+});
@@ -0,0 +1,102 @@
+/**
+ * Braiding: open extra walls at dead ends so the maze gains loops, without
+ * giving the solution a shortcut
+ */
+
+import { hopDistances } from './carve';
+import { RandomFn } from './random';
+import { MazeNeighbor, MazeNode } from './types';
+
+export interface BraidParams {
+  braid: number;      // 0-1, share of dead ends opened up
+  braidBias: number;  // 0-1, how strongly bright cells are braided first
+}
+
+// Weight of the brightest cell relative to the darkest at full bias
+const BRIGHT_WEIGHT = 8;
+
+/**
+ * Lower `node`'s distance to `d` and pass the improvement on, visiting only
+ * cells that actually get closer
+ */
+function relax(dist: Map<MazeNode, number>, node: MazeNode, d: number): void {
+  if (d >= (dist.get(node) ?? Infinity)) return;
+  dist.set(node, d);
+  const queue = [node];
+  for (let head = 0; head < queue.length; head++) {
+    const curr = queue[head];
+    const next = dist.get(curr)! + 1;
+    for (const [nb] of curr.connections) {
+      if (next >= (dist.get(nb) ?? Infinity)) continue;
+      dist.set(nb, next);
+      queue.push(nb);
+    }
+  }
+}
+
+/**
+ * Remove a share of the dead ends from a carved maze by opening one more
+ * wall at each, preferring walls into other dead ends (which removes both).
+ * A wall is only opened if every route through it from the start to an
+ * exit stays strictly longer than the solution, so the designated solution
+ * remains the one shortest route. Cells on the solution's ends are left
+ * alone. Bright cells go first as the bias rises. Returns the number of
+ * walls opened.
+ */
+export function braidMaze(
+  nodes: MazeNode[],
+  solution: MazeNode[],
+  exits: MazeNode[],
+  random: RandomFn,
+  params: BraidParams
+): number {
+  if (params.braid <= 0 || solution.length < 2) return 0;
+  const start = solution[0];
+  const fromStart = hopDistances([start]);
+  const toExit = hopDistances(exits);
+  // Hops of the stored solution, which a forced route can make longer than
+  // the way to the nearest exit; no new route may match it
+  const length = solution.length - 1;
+  const ends = new Set([start, ...exits]);
+
+  // Weighted shuffle: each dead end draws an exponential key scaled by its
+  // weight, and the smallest keys go first
+  const deadEnds = nodes.filter((n) => n.connections.size === 1 && !ends.has(n));
+  const keyed = deadEnds.map((node) => {
+    const weight = 1 + params.braidBias * (BRIGHT_WEIGHT - 1) * (node.rawBrightness / 255);
+    return { node, key: -Math.log(1 - random()) / weight };
+  });
+  keyed.sort((a, b) => a.key - b.key);
+
+  const target = Math.round(params.braid * deadEnds.length);
+  const keepsSolution = (a: MazeNode, b: MazeNode) => {
+    const via = (u: MazeNode, v: MazeNode) => (fromStart.get(u) ?? Infinity) + 1 + (toExit.get(v) ?? Infinity);
+    return via(a, b) > length && via(b, a) > length;
+  };
+
+  let removed = 0;
+  let opened = 0;
+  for (const { node } of keyed) {
+    if (removed >= target) break;
+    if (node.connections.size !== 1) continue; // already opened by a neighbor
+
+    // Sides of a weave crossing are tunnel mouths, not walls
+    const walls = node.neighbors.filter(
+      (nb) => !node.connections.has(nb.node) && !nb.node.under && keepsSolution(node, nb.node)
+    );
+    if (walls.length === 0) continue;
+    const joining = walls.filter((nb) => nb.node.connections.size === 1 && !ends.has(nb.node));
+    const pool: MazeNeighbor[] = joining.length > 0 ? joining : walls;
+    const wall = pool[Math.floor(random() * pool.length)];
+
+    removed += joining.length > 0 ? 2 : 1;
+    opened++;
+    node.connections.set(wall.node, wall.mid);
+    wall.node.connections.set(node, wall.mid);
+    relax(fromStart, wall.node, fromStart.get(node)! + 1);
+    relax(fromStart, node, fromStart.get(wall.node)! + 1);
+    relax(toExit, wall.node, toExit.get(node)! + 1);
+    relax(toExit, node, toExit.get(wall.node)! + 1);
+  }
+  return opened;
+}
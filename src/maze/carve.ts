@@ -0,0 +1,90 @@
+/**
+ * Passage carving and solving over the neighbor graph
+ */
+
+import { MazeNode } from './types';
+import { RandomFn } from './random';
+
+/**
+ * Open a passage between two adjacent nodes
+ */
+export function connect(a: MazeNode, b: MazeNode): boolean {
+  const neighborInfo = a.neighbors.find(n => n.node.id === b.id);
+  if (!neighborInfo) return false;
+  a.connections.set(b, neighborInfo.mid);
+  b.connections.set(a, neighborInfo.mid);
+  return true;
+}
+
+/**
+ * Recursive backtracker (iterative DFS) starting from `startNode`.
+ * Nodes already marked visited (e.g. a forced path) keep their passages;
+ * those passed as `forced` also get branches once the walk backs up past
+ * the start, so regions the forced path cuts off are still carved.
+ */
+export function carveDFS(startNode: MazeNode, random: RandomFn, forced: MazeNode[] = []): void {
+  const stack = [...forced, startNode];
+  startNode.visited = true;
+  while (stack.length > 0) {
+    const curr = stack[stack.length - 1];
+    const unvisited = curr.neighbors.filter((n) => !n.node.visited);
+    if (unvisited.length > 0) {
+      const nextData = unvisited[Math.floor(random() * unvisited.length)];
+      const next = nextData.node;
+      next.visited = true;
+      curr.connections.set(next, nextData.mid);
+      next.connections.set(curr, nextData.mid);
+      stack.push(next);
+    } else {
+      stack.pop();
+    }
+  }
+}
+
+/**
+ * Breadth-first search through carved connections
+ */
+export function solveBFS(startNode: MazeNode, endNode: MazeNode): MazeNode[] {
+  // Parent pointers instead of per-entry path copies keep this linear
+  const parent = new Map<MazeNode, MazeNode | null>([[startNode, null]]);
+  const queue: MazeNode[] = [startNode];
+  for (let head = 0; head < queue.length; head++) {
+    const node = queue[head];
+    if (node.id === endNode.id) return tracePath(parent, node);
+    for (const [neighbor] of node.connections) {
+      if (!parent.has(neighbor)) {
+        parent.set(neighbor, node);
+        queue.push(neighbor);
+      }
+    }
+  }
+  return [];
+}
+
+/**
+ * Breadth-first hop counts through carved connections from `sources`
+ */
+export function hopDistances(sources: MazeNode[]): Map<MazeNode, number> {
+  const dist = new Map<MazeNode, number>();
+  for (const s of sources) dist.set(s, 0);
+  const queue = [...sources];
+  for (let head = 0; head < queue.length; head++) {
+    const node = queue[head];
+    const d = dist.get(node)! + 1;
+    for (const [next] of node.connections) {
+      if (dist.has(next)) continue;
+      dist.set(next, d);
+      queue.push(next);
+    }
+  }
+  return dist;
+}
+
+/**
+ * Walk parent pointers back from `node` and return the path root-first
+ */
+export function tracePath(parent: Map<MazeNode, MazeNode | null>, node: MazeNode): MazeNode[] {
+  const path: MazeNode[] = [];
+  for (let n: MazeNode | null | undefined = node; n; n = parent.get(n)) path.push(n);
+  return path.reverse();
+}
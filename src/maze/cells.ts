@@ -0,0 +1,299 @@
+/**
+ * Polygon cell helpers shared by every tessellation: clipping, side labels
+ * and the uncovered (boundary) parts of a cell's outline
+ */
+
+import { Arc, CellSide, MazeNode, Point } from './types';
+
+// Shared edges and boundary pieces shorter than this are ignored (px)
+export const EDGE_EPS = 0.1;
+
+/**
+ * Polygon whose edge i runs from points[i] to points[i + 1] and carries
+ * labels[i] (e.g. the index of the cell on the other side, or -1)
+ */
+export interface LabeledPolygon {
+  points: Point[];
+  labels: number[];
+}
+
+/**
+ * Axis-aligned rectangle as a clockwise (on screen) outline, starting at the
+ * top-left corner: top, right, bottom, left edges
+ */
+export function rectPolygon(x: number, y: number, w: number, h: number): Point[] {
+  return [
+    { x, y },
+    { x: x + w, y },
+    { x: x + w, y: y + h },
+    { x, y: y + h },
+  ];
+}
+
+/**
+ * Keep the part of a convex polygon where nx*x + ny*y <= c (Sutherland-
+ * Hodgman). The new edge along the clip line gets `label`; pieces of old
+ * edges keep theirs. Zero-length edges are dropped.
+ */
+export function clipHalfPlane(
+  poly: LabeledPolygon,
+  nx: number,
+  ny: number,
+  c: number,
+  label: number
+): LabeledPolygon {
+  const { points, labels } = poly;
+  const n = points.length;
+  const eps = 1e-9 * (Math.abs(c) + 1);
+  const side = points.map((p) => nx * p.x + ny * p.y - c);
+  if (side.every((s) => s <= eps)) return poly;
+
+  const out: LabeledPolygon = { points: [], labels: [] };
+  const emit = (p: Point, l: number) => {
+    const last = out.points[out.points.length - 1];
+    if (last && Math.abs(last.x - p.x) < 1e-9 && Math.abs(last.y - p.y) < 1e-9) {
+      out.labels[out.labels.length - 1] = l;
+      return;
+    }
+    out.points.push(p);
+    out.labels.push(l);
+  };
+
+  for (let i = 0; i < n; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % n];
+    const inA = side[i] <= eps;
+    const inB = side[(i + 1) % n] <= eps;
+    if (inA) emit(a, labels[i]);
+    if (inA !== inB) {
+      const t = side[i] / (side[i] - side[(i + 1) % n]);
+      const hit = { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+      emit(hit, inA ? label : labels[i]);
+    }
+  }
+
+  // Close the loop: the last point may duplicate the first
+  const first = out.points[0];
+  const last = out.points[out.points.length - 1];
+  if (out.points.length > 1 && Math.abs(first.x - last.x) < 1e-9 && Math.abs(first.y - last.y) < 1e-9) {
+    out.points.pop();
+    out.labels.pop();
+  }
+  return out.points.length >= 3 ? out : { points: [], labels: [] };
+}
+
+/**
+ * Clip a convex polygon to the rectangle [0, width] x [0, height]; edges on
+ * the frame get `label`
+ */
+export function clipToRect(poly: LabeledPolygon, width: number, height: number, label = -1): LabeledPolygon {
+  let out = clipHalfPlane(poly, -1, 0, 0, label);
+  out = clipHalfPlane(out, 1, 0, width, label);
+  out = clipHalfPlane(out, 0, -1, 0, label);
+  return clipHalfPlane(out, 0, 1, height, label);
+}
+
+export function polygonArea(points: Point[]): number {
+  let sum = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(sum) / 2;
+}
+
+export function polygonBounds(points: Point[]): { x: number; y: number; w: number; h: number } {
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, w: Math.max(...xs) - x, h: Math.max(...ys) - y };
+}
+
+/**
+ * Even-odd point-in-polygon test
+ */
+export function containsPoint(points: Point[], x: number, y: number): boolean {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if (a.y > y !== b.y > y && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Side label for a clockwise outline edge a -> b: its outward normal
+ * quantized to 30 degree steps, so parallel sides of regular cells match
+ * (used to tell straight runs from turns)
+ */
+export function sideLabel(a: Point, b: Point): string {
+  const angle = Math.atan2(-(b.x - a.x), b.y - a.y);
+  const step = Math.round(angle / (Math.PI / 6));
+  return `dir${(step + 12) % 12}`;
+}
+
+export function arcPoint(arc: Arc, angle: number): Point {
+  return { x: arc.cx + arc.r * Math.cos(angle), y: arc.cy + arc.r * Math.sin(angle) };
+}
+
+/**
+ * Polyline through an arc from a0 to a1 that strays at most `tolerance` px
+ * from the true curve
+ */
+export function arcPoints(arc: Arc, tolerance: number): Point[] {
+  const maxStep = 2 * Math.acos(Math.max(-1, 1 - tolerance / arc.r));
+  const steps = Math.max(1, Math.ceil((arc.a1 - arc.a0) / maxStep));
+  const points: Point[] = [];
+  for (let s = 0; s <= steps; s++) points.push(arcPoint(arc, arc.a0 + ((arc.a1 - arc.a0) * s) / steps));
+  return points;
+}
+
+/**
+ * Middle of a side: on the curve for arcs
+ */
+export function sideMidpoint({ edge, arc }: CellSide): Point {
+  if (arc) return arcPoint(arc, (arc.a0 + arc.a1) / 2);
+  return { x: (edge[0].x + edge[1].x) / 2, y: (edge[0].y + edge[1].y) / 2 };
+}
+
+const sameCircle = (a: Arc, b: Arc) => a.cx === b.cx && a.cy === b.cy && Math.abs(a.r - b.r) < EDGE_EPS;
+
+/**
+ * Parts of the cell's outline not shared with any neighbor: the outer
+ * frame, or wherever a neighbor was removed. Sides follow the outline's
+ * clockwise order; curved outline edges give arc sides, merged along runs
+ * of the same circle.
+ */
+export function boundarySegments(node: MazeNode): CellSide[] {
+  const { polygon, arcs } = node;
+  const sides: CellSide[] = [];
+
+  const pushArc = (arc: Arc, from: Point, to: Point) => {
+    const last = sides[sides.length - 1];
+    const end = last?.edge[1];
+    if (last?.arc && sameCircle(last.arc, arc) && Math.abs(end.x - from.x) < 1e-9 && Math.abs(end.y - from.y) < 1e-9) {
+      last.edge = [last.edge[0], to];
+      last.arc = { ...arc, a0: Math.min(last.arc.a0, arc.a0), a1: Math.max(last.arc.a1, arc.a1) };
+      return;
+    }
+    sides.push({ edge: [from, to], arc });
+  };
+
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    const curve = arcs?.[i];
+    if (curve) {
+      // Shared arcs on the same circle, as angle intervals along this one
+      const covered: [number, number][] = [];
+      for (const { arc } of node.neighbors) {
+        if (!arc || !sameCircle(arc, curve)) continue;
+        const t0 = Math.max(curve.a0, arc.a0);
+        const t1 = Math.min(curve.a1, arc.a1);
+        if ((t1 - t0) * curve.r > EDGE_EPS) covered.push([t0, t1]);
+      }
+      covered.sort((u, v) => u[0] - v[0]);
+
+      const open: [number, number][] = [];
+      let t = curve.a0;
+      for (const [t0, t1] of covered) {
+        if ((t0 - t) * curve.r > EDGE_EPS) open.push([t, t0]);
+        t = Math.max(t, t1);
+      }
+      if ((curve.a1 - t) * curve.r > EDGE_EPS) open.push([t, curve.a1]);
+
+      // The outline may run the arc either way
+      const forward = Math.hypot(a.x - arcPoint(curve, curve.a0).x, a.y - arcPoint(curve, curve.a0).y) < EDGE_EPS;
+      const at = (s: number) => (s === curve.a0 ? (forward ? a : b) : s === curve.a1 ? (forward ? b : a) : arcPoint(curve, s));
+      if (!forward) open.reverse();
+      for (const [t0, t1] of open) {
+        const piece = { ...curve, a0: t0, a1: t1 };
+        if (forward) pushArc(piece, at(t0), at(t1));
+        else pushArc(piece, at(t1), at(t0));
+      }
+      continue;
+    }
+
+    const len = Math.hypot(b.x - a.x, b.y - a.y);
+    if (len < EDGE_EPS) continue;
+    const ux = (b.x - a.x) / len;
+    const uy = (b.y - a.y) / len;
+
+    // Shared edges lying on a -> b, as parameter intervals along it
+    const covered: [number, number][] = [];
+    for (const { edge, arc } of node.neighbors) {
+      if (arc) continue;
+      const [p, q] = edge;
+      const offP = Math.abs((p.x - a.x) * uy - (p.y - a.y) * ux);
+      const offQ = Math.abs((q.x - a.x) * uy - (q.y - a.y) * ux);
+      if (offP > EDGE_EPS || offQ > EDGE_EPS) continue;
+      const tp = (p.x - a.x) * ux + (p.y - a.y) * uy;
+      const tq = (q.x - a.x) * ux + (q.y - a.y) * uy;
+      const t0 = Math.max(0, Math.min(tp, tq));
+      const t1 = Math.min(len, Math.max(tp, tq));
+      if (t1 - t0 > EDGE_EPS) covered.push([t0, t1]);
+    }
+    covered.sort((u, v) => u[0] - v[0]);
+
+    let t = 0;
+    const at = (s: number) => ({ x: a.x + ux * s, y: a.y + uy * s });
+    for (const [t0, t1] of covered) {
+      if (t0 - t > EDGE_EPS) sides.push({ edge: [t === 0 ? a : at(t), at(t0)] });
+      t = Math.max(t, t1);
+    }
+    if (len - t > EDGE_EPS) sides.push({ edge: [t === 0 ? a : at(t), b] });
+  }
+  return sides;
+}
+
+export type Facing = 'top' | 'bottom' | 'left' | 'right';
+
+/**
+ * Outward unit normal of a boundary side at its middle. Sides run clockwise
+ * around their cell, so an arc running forward has the cell inside its
+ * circle.
+ */
+export function sideNormal({ edge, arc }: CellSide): Point {
+  if (arc) {
+    const mid = (arc.a0 + arc.a1) / 2;
+    const start = arcPoint(arc, arc.a0);
+    const sign = Math.hypot(edge[0].x - start.x, edge[0].y - start.y) < EDGE_EPS ? 1 : -1;
+    return { x: sign * Math.cos(mid), y: sign * Math.sin(mid) };
+  }
+  const [a, b] = edge;
+  const len = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+  return { x: (b.y - a.y) / len, y: (a.x - b.x) / len };
+}
+
+/**
+ * Length of a side: along the curve for arcs
+ */
+export function sideLength({ edge, arc }: CellSide): number {
+  return arc ? arc.r * (arc.a1 - arc.a0) : Math.hypot(edge[1].x - edge[0].x, edge[1].y - edge[0].y);
+}
+
+/**
+ * The longest of a cell's boundary sides facing the given way (outward
+ * normal within 45 degrees of it), or null if it has none. On a plain
+ * frame these are the sides on that frame edge; a masked maze opens
+ * wherever its silhouette faces that way.
+ */
+export function frameOpening(sides: CellSide[], facing: Facing): CellSide | null {
+  let best: CellSide | null = null;
+  let bestLen = 0;
+  for (const side of sides) {
+    const n = sideNormal(side);
+    const along = facing === 'top' ? -n.y : facing === 'bottom' ? n.y : facing === 'left' ? -n.x : n.x;
+    const across = facing === 'top' || facing === 'bottom' ? n.x : n.y;
+    if (along <= Math.abs(across)) continue;
+    const len = sideLength(side);
+    if (len > bestLen) {
+      bestLen = len;
+      best = side;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,79 @@
+/**
+ * Main-thread handle for running maze generation in a Web Worker
+ */
+
+import type { MazeStage } from './generate';
+import type { TargetProgress } from './target';
+import type { ImageDataLike, MazeData, MazeParams } from './types';
+
+export interface MazeWorkerRequest {
+  image: ImageDataLike;
+  params: MazeParams;
+}
+
+export type MazeWorkerResponse =
+  | { type: 'progress'; stage: MazeStage }
+  | { type: 'target'; progress: TargetProgress }
+  | { type: 'done'; maze: MazeData }
+  | { type: 'error'; message: string };
+
+export interface MazeJob {
+  promise: Promise<MazeData>;
+  cancel(): void;
+}
+
+/**
+ * Start generating a maze in a dedicated worker. Each job owns its worker,
+ * so cancelling terminates the computation immediately.
+ */
+export function startMazeJob(
+  image: ImageData,
+  params: MazeParams,
+  onProgress?: (stage: MazeStage) => void,
+  onTargetProgress?: (progress: TargetProgress) => void
+): MazeJob {
+  const worker = new Worker(new URL('./worker.ts', import.meta.url), { type: 'module' });
+  let settled = false;
+  let rejectJob: (err: Error) => void = () => {};
+
+  const finish = () => {
+    settled = true;
+    worker.terminate();
+  };
+
+  const promise = new Promise<MazeData>((resolve, reject) => {
+    rejectJob = reject;
+
+    worker.onmessage = (e: MessageEvent<MazeWorkerResponse>) => {
+      const msg = e.data;
+      if (msg.type === 'progress') {
+        onProgress?.(msg.stage);
+      } else if (msg.type === 'target') {
+        onTargetProgress?.(msg.progress);
+      } else if (msg.type === 'done') {
+        finish();
+        resolve(msg.maze);
+      } else {
+        finish();
+        reject(new Error(msg.message));
+      }
+    };
+
+    worker.onerror = (e) => {
+      finish();
+      reject(new Error(e.message || 'Maze worker failed'));
+    };
+  });
+
+  const request: MazeWorkerRequest = { image, params };
+  worker.postMessage(request, [image.data.buffer]);
+
+  return {
+    promise,
+    cancel() {
+      if (settled) return;
+      finish();
+      rejectJob(new Error('Generation cancelled'));
+    },
+  };
+}
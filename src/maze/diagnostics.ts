@@ -0,0 +1,97 @@
+/**
+ * Diagnostic heatmaps for tuning subdivision: the processed brightness and
+ * edge-strength maps the cells were refined by, how deep each cell got, and
+ * how far each cell is from the start
+ */
+
+import { polygonArea } from './cells';
+import { hopDistances } from './carve';
+import { MazeData, MazeNode } from './types';
+
+export type DiagnosticOverlay = 'none' | 'tone' | 'edges' | 'depth' | 'distance';
+
+export const DIAGNOSTIC_OVERLAYS: { id: DiagnosticOverlay; label: string }[] = [
+  { id: 'none', label: 'None' },
+  { id: 'tone', label: 'Processed brightness' },
+  { id: 'edges', label: 'Edge strength' },
+  { id: 'depth', label: 'Subdivision depth' },
+  { id: 'distance', label: 'Distance from start' },
+];
+
+/**
+ * Values to color, per pixel of the maze frame (row-major, width x height)
+ * or per cell, and the range the legend spans. Cells missing from `cells`
+ * (unreachable from the start) have no value.
+ */
+export type Heatmap = {
+  min: number;
+  max: number;
+  unit: string;
+} & (
+  | { kind: 'pixels'; width: number; height: number; values: Float32Array }
+  | { kind: 'cells'; values: Map<MazeNode, number> }
+);
+
+// Perceptually even dark-to-bright ramp (viridis), low to high
+const HEAT_STOPS: [number, number, number][] = [
+  [68, 1, 84],
+  [59, 82, 139],
+  [33, 145, 140],
+  [94, 201, 98],
+  [253, 231, 37],
+];
+
+/**
+ * Color of a 0-1 heat value
+ */
+export function heatColor(t: number): [number, number, number] {
+  const x = Math.max(0, Math.min(1, t)) * (HEAT_STOPS.length - 1);
+  const i = Math.min(HEAT_STOPS.length - 2, Math.floor(x));
+  const f = x - i;
+  const [a, b] = [HEAT_STOPS[i], HEAT_STOPS[i + 1]];
+  return [0, 1, 2].map((c) => Math.round(a[c] + (b[c] - a[c]) * f)) as [number, number, number];
+}
+
+/**
+ * Subdivision depth of a cell: how many times the frame's size halves down
+ * to the cell's (sides of squares of equal area). Quadtree cells land on
+ * whole levels, or halves where a split only cut one way; lattice and
+ * Voronoi cells read as the level their size corresponds to.
+ */
+export function subdivisionDepth(node: MazeNode, width: number, height: number): number {
+  return Math.log2(width * height / Math.max(polygonArea(node.polygon), 1e-6)) / 2;
+}
+
+/**
+ * The heatmap an overlay shows for a maze, or null when it shows nothing
+ * (no overlay, or no maze yet)
+ */
+export function diagnosticHeatmap(maze: MazeData, overlay: DiagnosticOverlay): Heatmap | null {
+  const { nodes, fields, width, height } = maze;
+  switch (overlay) {
+    case 'tone':
+      if (!fields) return null;
+      return { kind: 'pixels', width: fields.width, height: fields.height, values: fields.tone, min: 0, max: 255, unit: 'brightness' };
+    case 'edges': {
+      if (!fields) return null;
+      const peak = fields.magnitude.reduce((max, m) => Math.max(max, m), 0);
+      return { kind: 'pixels', width: fields.width, height: fields.height, values: fields.magnitude, min: 0, max: peak, unit: 'gradient' };
+    }
+    case 'depth': {
+      if (nodes.length === 0) return null;
+      const values = new Map(nodes.map((node) => [node, subdivisionDepth(node, width, height)]));
+      const depths = [...values.values()];
+      const min = depths.reduce((m, d) => Math.min(m, d), Infinity);
+      const max = depths.reduce((m, d) => Math.max(m, d), 0);
+      return { kind: 'cells', values, min, max, unit: 'levels' };
+    }
+    case 'distance': {
+      if (!maze.startNode) return null;
+      const values = hopDistances([maze.startNode]);
+      const max = [...values.values()].reduce((m, d) => Math.max(m, d), 0);
+      return { kind: 'cells', values, min: 0, max, unit: 'cells from start' };
+    }
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Gradient-based edge detection over the processed tone map
+ */
+
+import { ToneMap, summedArea, pixelRect, rectMean } from './image';
+
+/**
+ * Per-pixel image fields at maze resolution, shipped with the maze so the
+ * renderer and later stages can reuse them
+ */
+export interface MazeFields {
+  width: number;
+  height: number;
+  tone: Float32Array;       // processed brightness, 0-255
+  gx: Float32Array;         // horizontal gradient
+  gy: Float32Array;         // vertical gradient
+  magnitude: Float32Array;  // gradient magnitude, clamped to 0-255
+}
+
+export type EdgeMetric = 'max' | 'mean';
+
+/**
+ * Gradient magnitude with structures for region queries: a summed-area
+ * table for means and a max pyramid (level k = max over aligned 2^k blocks)
+ */
+export interface EdgeMap {
+  fields: MazeFields;
+  integral: Float64Array;
+  pyramid: { size: number; cols: number; rows: number; values: Float32Array }[];
+}
+
+/**
+ * Sobel gradients of the tone map. Kernels are normalized by 4 so a hard
+ * black-to-white step reads as 255, matching the tone scale.
+ */
+export function computeGradients(map: ToneMap): MazeFields {
+  const { width, height, values } = map;
+  const gx = new Float32Array(width * height);
+  const gy = new Float32Array(width * height);
+  const magnitude = new Float32Array(width * height);
+
+  const at = (x: number, y: number) =>
+    values[Math.max(0, Math.min(height - 1, y)) * width + Math.max(0, Math.min(width - 1, x))];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const tl = at(x - 1, y - 1), tc = at(x, y - 1), tr = at(x + 1, y - 1);
+      const ml = at(x - 1, y), mr = at(x + 1, y);
+      const bl = at(x - 1, y + 1), bc = at(x, y + 1), br = at(x + 1, y + 1);
+      const idx = y * width + x;
+      gx[idx] = (-tl + tr - 2 * ml + 2 * mr - bl + br) / 4;
+      gy[idx] = (-tl - 2 * tc - tr + bl + 2 * bc + br) / 4;
+      magnitude[idx] = Math.min(255, Math.hypot(gx[idx], gy[idx]));
+    }
+  }
+
+  return { width, height, tone: values, gx, gy, magnitude };
+}
+
+/**
+ * Compute gradients and the region query structures
+ */
+export function createEdgeMap(map: ToneMap): EdgeMap {
+  const fields = computeGradients(map);
+  const { width, height, magnitude } = fields;
+
+  const integral = summedArea(width, height, (x, y) => magnitude[y * width + x]);
+
+  const pyramid: EdgeMap['pyramid'] = [{ size: 1, cols: width, rows: height, values: magnitude }];
+  while (true) {
+    const prev = pyramid[pyramid.length - 1];
+    if (prev.cols <= 1 && prev.rows <= 1) break;
+    const cols = Math.ceil(prev.cols / 2);
+    const rows = Math.ceil(prev.rows / 2);
+    const values = new Float32Array(cols * rows);
+    for (let y = 0; y < rows; y++) {
+      for (let x = 0; x < cols; x++) {
+        let m = 0;
+        for (let dy = 0; dy < 2; dy++) {
+          for (let dx = 0; dx < 2; dx++) {
+            const px = x * 2 + dx;
+            const py = y * 2 + dy;
+            if (px < prev.cols && py < prev.rows) m = Math.max(m, prev.values[py * prev.cols + px]);
+          }
+        }
+        values[y * cols + x] = m;
+      }
+    }
+    pyramid.push({ size: prev.size * 2, cols, rows, values });
+  }
+
+  return { fields, integral, pyramid };
+}
+
+/**
+ * Gradient strength inside a maze-space rectangle: the strongest edge
+ * ('max', catches thin contours in large cells) or the average ('mean')
+ */
+export function edgeStrengthIn(
+  edges: EdgeMap,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  metric: EdgeMetric
+): number {
+  const { width, height } = edges.fields;
+  if (metric === 'mean') return rectMean(edges.integral, width, height, x, y, w, h);
+  const { x0, y0, x1, y1 } = pixelRect(width, height, x, y, w, h);
+
+  // Coarsest level whose blocks still fit in the cell; aligned blocks may
+  // overhang the rectangle by less than one block
+  let level = 0;
+  const span = Math.min(x1 - x0, y1 - y0);
+  while (level + 1 < edges.pyramid.length && edges.pyramid[level + 1].size * 2 <= span) level++;
+  const { size, cols, values } = edges.pyramid[level];
+
+  let m = 0;
+  for (let by = Math.floor(y0 / size); by <= Math.floor((y1 - 1) / size); by++) {
+    for (let bx = Math.floor(x0 / size); bx <= Math.floor((x1 - 1) / size); bx++) {
+      m = Math.max(m, values[by * cols + bx]);
+    }
+  }
+  return m;
+}
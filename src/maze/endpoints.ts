@@ -0,0 +1,143 @@
+/**
+ * Entrances and exits: preset layouts or clicked cells, opening on any side
+ * of the maze, plus interior goals
+ */
+
+import { Facing, boundarySegments, frameOpening, sideMidpoint } from './cells';
+import { findNearestNode } from './waypoints';
+import type { Tessellation } from './tessellation';
+import { CellSide, MazeNode, MazePortal, Point } from './types';
+
+export type EndpointLayout = 'top-bottom' | 'left-right' | 'corners' | 'center' | 'custom';
+
+export const ENDPOINT_LAYOUTS: { id: EndpointLayout; label: string }[] = [
+  { id: 'top-bottom', label: 'Top → bottom (round: rim → center)' },
+  { id: 'left-right', label: 'Left → right' },
+  { id: 'corners', label: 'Corner → corner' },
+  { id: 'center', label: 'Top → center' },
+  { id: 'custom', label: 'Clicked cells' },
+];
+
+export interface EndpointParams {
+  endpointLayout: EndpointLayout;
+  startPoint?: Point | null;  // custom layout: clicked entrance, in maze coordinates
+  exitPoints?: Point[];       // custom layout: clicked exits; interior cells become goals
+}
+
+// Openings this close (px) in rank count as level; the second rank decides
+const RANK_EPS = 1.0;
+
+type OuterCell = { node: MazeNode; sides: CellSide[] };
+
+/**
+ * The opening facing one of `facings` that ranks lowest: first by `rank`'s
+ * first value, then (within RANK_EPS) by its second
+ */
+function bestOpening(
+  outer: OuterCell[],
+  facings: Facing[],
+  rank: (p: Point) => [number, number]
+): MazePortal | null {
+  let best: MazePortal | null = null;
+  let bestRank: [number, number] = [Infinity, Infinity];
+  for (const { node, sides } of outer) {
+    for (const facing of facings) {
+      const side = frameOpening(sides, facing);
+      if (!side) continue;
+      const r = rank(sideMidpoint(side));
+      if (r[0] < bestRank[0] - RANK_EPS || (r[0] <= bestRank[0] + RANK_EPS && r[1] < bestRank[1])) {
+        best = { node, side };
+        bestRank = r;
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Portal for a chosen cell: through its boundary side nearest `toward`, or
+ * an interior portal when the cell has no outer side
+ */
+export function portalToward(node: MazeNode, toward: Point): MazePortal {
+  let side: CellSide | null = null;
+  let minDist = Infinity;
+  for (const candidate of boundarySegments(node)) {
+    const mid = sideMidpoint(candidate);
+    const dist = Math.hypot(mid.x - toward.x, mid.y - toward.y);
+    if (dist < minDist) {
+      minDist = dist;
+      side = candidate;
+    }
+  }
+  return { node, side };
+}
+
+/**
+ * Portal in the cell under (or nearest) a clicked point
+ */
+function portalAt(nodes: MazeNode[], p: Point): MazePortal | null {
+  const node = findNearestNode(p.x, p.y, nodes);
+  return node ? portalToward(node, p) : null;
+}
+
+/**
+ * Entrance and exits for a layout. Presets open on the frame (or a mask's
+ * silhouette) at the middle of a side or at opposite corners; 'center' ends
+ * at the cell nearest the middle, as round mazes do by default. The custom
+ * layout uses the clicked cells and falls back to top/bottom for whatever
+ * wasn't clicked. Needs linked cells.
+ */
+export function findEndpoints(
+  nodes: MazeNode[],
+  width: number,
+  height: number,
+  params: EndpointParams,
+  tessellation: Tessellation = 'quad'
+): { entrance: MazePortal; exits: MazePortal[] } {
+  const cx = width / 2;
+  const cy = height / 2;
+  const outer: OuterCell[] = [];
+  for (const node of nodes) {
+    const sides = boundarySegments(node);
+    if (sides.length > 0) outer.push({ node, sides });
+  }
+
+  const top = () => bestOpening(outer, ['top'], (p) => [p.y, Math.abs(p.x - cx)]);
+  const bottom = () => bestOpening(outer, ['bottom'], (p) => [-p.y, Math.abs(p.x - cx)]);
+  const center = (): MazePortal | null => {
+    const node = findNearestNode(cx, cy, nodes);
+    return node ? { node, side: null } : null;
+  };
+
+  let entrance: MazePortal | null;
+  let exits: (MazePortal | null)[];
+  switch (params.endpointLayout) {
+    case 'left-right':
+      entrance = bestOpening(outer, ['left'], (p) => [p.x, Math.abs(p.y - cy)]);
+      exits = [bestOpening(outer, ['right'], (p) => [-p.x, Math.abs(p.y - cy)])];
+      break;
+    case 'corners':
+      entrance = bestOpening(outer, ['top', 'left'], (p) => [Math.hypot(p.x, p.y), 0]);
+      exits = [bestOpening(outer, ['bottom', 'right'], (p) => [Math.hypot(width - p.x, height - p.y), 0])];
+      break;
+    case 'center':
+      entrance = top();
+      exits = [center()];
+      break;
+    case 'custom':
+      entrance = params.startPoint ? portalAt(nodes, params.startPoint) : top();
+      exits = (params.exitPoints ?? []).map((p) => portalAt(nodes, p));
+      if (exits.length === 0) exits = [bottom()];
+      break;
+    case 'top-bottom':
+    default:
+      entrance = top();
+      exits = [tessellation === 'polar' ? center() : bottom()];
+  }
+
+  const valid = exits.filter((exit): exit is MazePortal => exit !== null);
+  return {
+    entrance: entrance ?? { node: nodes[0], side: null },
+    exits: valid.length > 0 ? valid : [{ node: nodes[nodes.length - 1], side: null }],
+  };
+}
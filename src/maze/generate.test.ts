@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { generateTestMaze, TEST_WIDTH } from './testing';
+import { validateMaze } from './validate';
+import { findNearestNode } from './waypoints';
+
+describe('generateMaze waypoint warnings', () => {
+  // The top-left corner cell, walled in by its two neighbors, and a cell far away
+  const layout = generateTestMaze();
+  const corner = layout.nodes.find((n) => n.x === 0 && n.y === 0)!;
+  const [a, b] = corner.neighbors.map((nb) => nb.node.center);
+  const far = findNearestNode(TEST_WIDTH - 10, 90, layout.nodes)!.center;
+
+  it('reports a waypoint the route so far cuts off', () => {
+    // Reaching the corner after its neighbor `a` is on the path and `b` is
+    // reserved for the last waypoint is impossible
+    expect(corner.neighbors).toHaveLength(2);
+    const maze = generateTestMaze({ waypoints: [a, far, corner.center, b] });
+    expect(maze.warnings).toEqual(['The route found so far cuts off waypoint 3; the solution ends at waypoint 2.']);
+    expect(maze.solution[maze.solution.length - 1].center).toEqual(far);
+    expect(validateMaze(maze)).toEqual([]);
+  });
+
+  it('reports a first leg that is cut off and drops the waypoints', () => {
+    // Starting in the corner, both ways out are reserved for later waypoints
+    const maze = generateTestMaze({ waypoints: [corner.center, far, a, b] });
+    expect(maze.warnings).toEqual(['Waypoint 2 is cut off from the first waypoint; the solution ignores the waypoints.']);
+    expect(maze.startNode).toBe(maze.entrance!.node);
+    expect(validateMaze(maze)).toEqual([]);
+  });
+});
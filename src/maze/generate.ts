@@ -0,0 +1,173 @@
+/**
+ * Headless maze generation pipeline: subdivide, link neighbors, carve, solve
+ */
+
+import { createToneMap } from './image';
+import { createEdgeMap } from './edges';
+import { createMask, applyMask } from './mask';
+import { createImportanceMap } from './importance';
+import { buildCells, linkCells } from './tessellation';
+import { findEndpoints, portalToward } from './endpoints';
+import { connect, solveBFS } from './carve';
+import { carveMaze, CarveAlgorithm } from './algorithms';
+import { weaveMaze } from './weave';
+import { braidMaze } from './braid';
+import { mazeStats } from './stats';
+import { searchDifficulty, TargetProgress, TargetResult } from './target';
+import { mapWaypointsToPath } from './waypoints';
+import { routeAlongContours } from './routing';
+import { createRandom } from './random';
+import { ImageDataLike, MazeData, MazeNode, MazeParams } from './types';
+
+export type MazeStage = 'subdivision' | 'adjacency' | 'carving' | 'solving';
+
+export const MAZE_STAGES: MazeStage[] = ['subdivision', 'adjacency', 'carving', 'solving'];
+
+export interface GenerateOptions {
+  onProgress?: (stage: MazeStage) => void;
+  onTargetProgress?: (progress: TargetProgress) => void;
+}
+
+/**
+ * Generate a maze from an RGBA image. Pure: no DOM or React access, so it
+ * can run in a worker, in Node, or in tests. Deterministic for a given
+ * image, params and seed, except that with a difficulty target the time
+ * budget decides how many candidates get tried. The maze records the seed
+ * and algorithm it was carved with, which regenerate it with targeting off.
+ */
+export function generateMaze(
+  image: ImageDataLike,
+  params: MazeParams,
+  options: GenerateOptions = {}
+): MazeData {
+  const { onProgress, onTargetProgress } = options;
+  const { width, height } = params;
+  const toneMap = createToneMap(image, width, height, params);
+  const edgeMap = createEdgeMap(toneMap);
+  const mask = createMask(image, toneMap, params);
+  const importance = createImportanceMap(width, height, params.importanceStrokes);
+
+  onProgress?.('subdivision');
+  const guides = { mask, importance };
+  const cells = buildCells(width, height, toneMap, edgeMap, params, guides);
+
+  onProgress?.('adjacency');
+  linkCells(cells, width, height, toneMap, params, guides);
+  const nodes = mask ? applyMask(cells, mask) : cells;
+  let { entrance, exits } = findEndpoints(nodes, width, height, params, params.tessellation);
+  let startNode = entrance.node;
+  let endNode = exits[0].node;
+
+  // Handle forced solution path: hand-placed waypoints win over automatic routing
+  let forcedPath: MazeNode[] = [];
+  const waypoints = params.waypoints ?? [];
+  let reached = waypoints.length;
+  const warnings: string[] = [];
+  if (waypoints.length >= 2) {
+    ({ path: forcedPath, reached } = mapWaypointsToPath(waypoints, nodes, edgeMap));
+    if (reached < waypoints.length && forcedPath.length < 2) {
+      // Nothing left of the route to force; the solution runs from start to exit
+      warnings.push(`Waypoint ${reached + 1} is cut off from the first waypoint; the solution ignores the waypoints.`);
+    } else if (reached < waypoints.length) {
+      warnings.push(`The route found so far cuts off waypoint ${reached + 1}; the solution ends at waypoint ${reached}.`);
+    }
+  } else if (params.solutionRoute === 'contour') {
+    forcedPath = routeAlongContours(nodes, startNode, endNode, edgeMap);
+  }
+
+  if (forcedPath.length >= 2) {
+    // Override start and end nodes; waypoint ends open on the side nearest the first/last click
+    startNode = forcedPath[0];
+    endNode = forcedPath[forcedPath.length - 1];
+    if (waypoints.length >= 2) {
+      entrance = portalToward(startNode, waypoints[0]);
+      exits = [portalToward(endNode, waypoints[reached - 1])];
+    }
+  }
+
+  // Carve the linked cells from scratch: forced path, passages, weave
+  // crossings, solution, then braids
+  const carve = (seed: number, algorithm: CarveAlgorithm, onSolving?: () => void) => {
+    for (const node of nodes) {
+      node.visited = false;
+      node.connections.clear();
+      delete node.under;
+    }
+
+    // Force connections along the path
+    for (let i = 0; i < forcedPath.length - 1; i++) {
+      const curr = forcedPath[i];
+      const next = forcedPath[i + 1];
+      if (connect(curr, next)) {
+        curr.visited = true;
+        next.visited = true;
+      }
+    }
+
+    const random = createRandom(seed);
+    carveMaze(nodes, startNode, random, { ...params, algorithm });
+    weaveMaze(nodes, forcedPath, random, params);
+
+    // Use forced path as solution if set, otherwise find via BFS to the nearest exit
+    onSolving?.();
+    let solution = forcedPath;
+    let end = endNode;
+    if (solution.length < 2) {
+      solution = [];
+      for (const exit of exits) {
+        const path = solveBFS(startNode, exit.node);
+        if (solution.length === 0 || (path.length > 0 && path.length < solution.length)) solution = path;
+      }
+      end = solution[solution.length - 1] ?? endNode;
+    }
+
+    // Loops go in once the solution is known, so none of them can shorten it
+    const braids = braidMaze(nodes, solution, exits.map((exit) => exit.node), random, params);
+    return { solution, end, braids };
+  };
+
+  const assemble = (
+    { solution, end, braids }: ReturnType<typeof carve>,
+    seed: number,
+    algorithm: CarveAlgorithm,
+    target: TargetResult | null
+  ): MazeData => ({
+    nodes,
+    solution,
+    startNode,
+    endNode: end,
+    entrance,
+    exits,
+    warnings,
+    braids,
+    target,
+    width,
+    height,
+    seed,
+    algorithm,
+    fields: edgeMap.fields,
+  });
+
+  onProgress?.('carving');
+  const { seed, algorithm } = params;
+  if (params.targetDifficulty <= 0) {
+    return assemble(carve(seed, algorithm, () => onProgress?.('solving')), seed, algorithm, null);
+  }
+
+  // Stippled Voronoi cells are placed by the seed as well, so a candidate
+  // with another seed there is generated from scratch; that way the seed a
+  // search settles on reproduces its maze with targeting off
+  const untargeted = (s: number, a: CarveAlgorithm, generateOptions: GenerateOptions = {}) =>
+    generateMaze(image, { ...params, seed: s, algorithm: a, targetDifficulty: 0 }, generateOptions);
+  const relaid = (s: number) => params.tessellation === 'voronoi' && s !== seed;
+
+  const target = searchDifficulty(
+    seed,
+    algorithm,
+    params,
+    (s, a) => mazeStats(relaid(s) ? untargeted(s, a) : assemble(carve(s, a), s, a, null)).score,
+    onTargetProgress
+  );
+  if (relaid(target.seed)) return { ...untargeted(target.seed, target.algorithm, { onProgress }), target };
+  return assemble(carve(target.seed, target.algorithm, () => onProgress?.('solving')), target.seed, target.algorithm, target);
+}
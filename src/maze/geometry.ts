@@ -0,0 +1,204 @@
+/**
+ * Drawable maze geometry shared by the canvas renderer, SVG export and
+ * plot jobs, so all three always agree on what gets drawn
+ */
+
+import { createWarp, densify, WarpFn } from './warp';
+import { createNoiseWarp } from './noise';
+import { WEAVE_INSET } from './weave';
+import { arcPoints, boundarySegments, sideMidpoint, sideNormal } from './cells';
+import { Arc, CellSide, MazeData, MazeNode, MazePortal, Point } from './types';
+
+export interface MazeWall {
+  points: Point[];     // polyline, at least two points
+  brightness: number;  // processed brightness the wall's ink weight follows
+  arc?: Arc;           // the exact curve `points` approximates; only on unwarped walls
+}
+
+/**
+ * Wall deformation settings; both stages are off at 0
+ */
+export interface DeformOptions {
+  warpStrength: number;  // 0-2, contour warp
+  noiseMacro: number;    // px, large-scale sway
+  noiseMedium: number;   // px, organic flow
+  noiseFine: number;     // px, pen-like texture
+}
+
+// Fine enough for the finest noise octave to show along straight walls
+const DENSIFY_STEP = 2;
+
+// Curved walls are flattened to polylines within this distance (px)
+const ARC_TOLERANCE = 0.1;
+
+/**
+ * Contour warp (from the maze's stored image fields) followed by seeded
+ * noise, or null when both are off. Each stage is fold-free on its own, so
+ * the composition is too.
+ */
+export function getMazeWarp(maze: MazeData, options: DeformOptions): WarpFn | null {
+  const contour = maze.fields && options.warpStrength > 0 ? createWarp(maze.fields, options.warpStrength) : null;
+  const noise = createNoiseWarp(maze.width, maze.height, maze.seed, {
+    macro: options.noiseMacro,
+    medium: options.noiseMedium,
+    fine: options.noiseFine,
+  });
+  if (contour && noise) return (p) => noise(contour(p));
+  return contour ?? noise;
+}
+
+function applyWarp(points: Point[], warp: WarpFn | null): Point[] {
+  return warp ? densify(points, DENSIFY_STEP).map(warp) : points;
+}
+
+/**
+ * Opening sides of the entrance and every exit (interior ends have none)
+ */
+export function mazeOpenings(maze: MazeData): CellSide[] {
+  const portals = maze.entrance ? [maze.entrance, ...maze.exits] : maze.exits;
+  return portals.flatMap(({ side }) => (side ? [side] : []));
+}
+
+/**
+ * A START or END marker. Openings point along their outward normal;
+ * interior ends (no opening) are marked from straight above.
+ */
+export interface PortalMark {
+  role: 'start' | 'end';
+  anchor: Point;      // middle of the opening, or the cell center
+  normal: Point;      // unit vector out of the maze through the opening
+  interior: boolean;
+}
+
+const portalMark = (role: PortalMark['role'], { node, side }: MazePortal): PortalMark =>
+  side
+    ? { role, anchor: sideMidpoint(side), normal: sideNormal(side), interior: false }
+    : { role, anchor: node.center, normal: { x: 0, y: -1 }, interior: true };
+
+/**
+ * START mark for the entrance and an END mark for every exit. Anchors go
+ * through the walls' warp so the arrows stay on their openings.
+ */
+export function portalMarks(maze: MazeData, warp: WarpFn | null = null): PortalMark[] {
+  const marks = maze.exits.map((exit) => portalMark('end', exit));
+  const all = maze.entrance ? [portalMark('start', maze.entrance), ...marks] : marks;
+  return warp ? all.map((mark) => ({ ...mark, anchor: warp(mark.anchor) })) : all;
+}
+
+/**
+ * Arrow and label position of a mark, in maze coordinates. The arrow runs
+ * along the normal, pointing into the maze at entrances and interior goals
+ * and out of it at exits; the label sits just beyond it.
+ */
+export function markGlyph({ role, anchor, normal, interior }: PortalMark): {
+  shaft: [Point, Point];
+  head: [Point, Point, Point];
+  label: Point;
+} {
+  // `d` px out along the normal, `across` px to its side
+  const at = (d: number, across = 0) => ({
+    x: anchor.x + normal.x * d - normal.y * across,
+    y: anchor.y + normal.y * d + normal.x * across,
+  });
+  const inward = role === 'start' || interior;
+  const tip = inward ? 3 : 14;
+  const barb = inward ? 7 : 10;
+  return {
+    shaft: [at(inward ? 14 : 3), at(tip)],
+    head: [at(barb, -3), at(tip), at(barb, 3)],
+    label: at(18),
+  };
+}
+
+/**
+ * Walls of a weave crossing: a rail across the cell in front of each
+ * tunnel mouth, and the short stretches of the bridge's open sides beyond
+ * the rails, which are the tunnel's own walls running underneath. The
+ * tunnel mouths themselves stay open.
+ */
+function crossingWalls(node: MazeNode): [Point, Point][] {
+  const lerp = (p: Point, q: Point, t: number) => ({ x: p.x + (q.x - p.x) * t, y: p.y + (q.y - p.y) * t });
+  const walls: [Point, Point][] = [];
+  for (const nb of node.neighbors) {
+    const [p, q] = nb.edge;
+    if (node.under!.includes(nb.node)) {
+      // Mouth edge moved toward the center; the rails end up WEAVE_INSET of the cell in
+      const mid = lerp(p, q, 0.5);
+      const dx = (node.center.x - mid.x) * 2 * WEAVE_INSET;
+      const dy = (node.center.y - mid.y) * 2 * WEAVE_INSET;
+      walls.push([{ x: p.x + dx, y: p.y + dy }, { x: q.x + dx, y: q.y + dy }]);
+    } else {
+      walls.push([p, lerp(p, q, WEAVE_INSET)], [lerp(q, p, WEAVE_INSET), q]);
+    }
+  }
+  return walls;
+}
+
+const sameSide = ({ edge: a }: CellSide, { edge: b }: CellSide) =>
+  a[0].x === b[0].x && a[0].y === b[0].y && a[1].x === b[1].x && a[1].y === b[1].y;
+
+/**
+ * Every wall of the maze: each cell's outline not shared with a neighbor
+ * (the outer frame) except the entrance and exit openings, plus each shared edge
+ * between neighbors that has no carved connection. Shared edges are emitted
+ * once (from the lower id side). Works for any polygon cells; curved
+ * sides keep their arc unless the warp bends them. Weave crossings add
+ * their rails and leave their tunnel mouths open.
+ */
+export function extractWalls(maze: MazeData, warp: WarpFn | null = null): MazeWall[] {
+  const { nodes } = maze;
+  const openings = mazeOpenings(maze);
+  const walls: MazeWall[] = [];
+
+  const push = ({ edge, arc }: CellSide, brightness: number) => {
+    if (!arc) {
+      walls.push({ points: applyWarp(edge, warp), brightness });
+      return;
+    }
+    const points = applyWarp(arcPoints(arc, ARC_TOLERANCE), warp);
+    walls.push(warp ? { points, brightness } : { points, brightness, arc });
+  };
+
+  for (const node of nodes) {
+    for (const side of boundarySegments(node)) {
+      if (openings.some((opening) => sameSide(side, opening))) continue;
+      push(side, node.rawBrightness);
+    }
+    for (const nb of node.neighbors) {
+      if (node.id >= nb.node.id || node.connections.has(nb.node)) continue;
+      if (node.under?.includes(nb.node) || nb.node.under?.includes(node)) continue;
+      push(nb, (node.rawBrightness + nb.node.rawBrightness) / 2);
+    }
+    if (node.under) {
+      for (const edge of crossingWalls(node)) push({ edge }, node.rawBrightness);
+    }
+  }
+
+  return walls;
+}
+
+/**
+ * Polyline of the solution: in through the entrance, cell center to shared
+ * edge midpoint to cell center, and out through the exit it reaches
+ * (starting or ending at the cell center for interior ends)
+ */
+export function solutionPoints(maze: MazeData, warp: WarpFn | null = null): Point[] {
+  const sol = maze.solution;
+  if (sol.length === 0) return [];
+
+  const first = sol[0];
+  const last = sol[sol.length - 1];
+  const entrance = maze.entrance?.node === first ? maze.entrance.side : null;
+  const exit = maze.exits.find((portal) => portal.node === last)?.side ?? null;
+
+  const points: Point[] = entrance ? [sideMidpoint(entrance), first.center] : [first.center];
+  for (let i = 0; i < sol.length - 1; i++) {
+    const sharedMid = sol[i].connections.get(sol[i + 1]);
+    if (sharedMid) {
+      points.push(sharedMid, sol[i + 1].center);
+    }
+  }
+  if (exit) points.push(sideMidpoint(exit));
+
+  return applyWarp(points, warp);
+}
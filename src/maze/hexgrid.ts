@@ -0,0 +1,138 @@
+/**
+ * Adaptive hexagonal cells: a multi-level hex lattice refined with the
+ * shared tone/edge test, turned into cells by Voronoi
+ */
+
+import { ToneMap, areaMean } from './image';
+import { EdgeMap } from './edges';
+import { RefineGuides, SubdivisionParams, createRefineTest, getMinCellSize, latticeDetail } from './quadtree';
+import { clipToRect, polygonBounds } from './cells';
+import { linkVoronoiCells } from './voronoi';
+import { MazeNode, Point } from './types';
+
+const SQRT3 = Math.sqrt(3);
+
+// Axial offsets of the six neighbors of a hex
+const HEX_DIRECTIONS = [
+  [1, 0], [-1, 0], [0, 1], [0, -1], [1, -1], [-1, 1],
+];
+
+/**
+ * Finest lattice spacing (hex of the same area as a minimum square cell)
+ * and number of refinement levels above it
+ */
+function hexLevels(width: number, height: number, detailLevel: number): { spacing: number; levels: number } {
+  const spacing = getMinCellSize(width, height, detailLevel) * Math.sqrt(2 / SQRT3);
+  let levels = 0;
+  while (spacing * Math.pow(2, levels + 1) <= Math.max(width, height) / 4) levels++;
+  return { spacing, levels };
+}
+
+/**
+ * Pointy-top hexagon outline around a center, clockwise on screen
+ */
+function hexagon(cx: number, cy: number, size: number): Point[] {
+  const r = size / SQRT3;
+  return [-90, -30, 30, 90, 150, 210].map((deg) => ({
+    x: cx + r * Math.cos((deg * Math.PI) / 180),
+    y: cy + r * Math.sin((deg * Math.PI) / 180),
+  }));
+}
+
+/**
+ * Choose hex cell centers. Lattice points are kept in axial coordinates of
+ * the finest level, so coarser levels are the points whose coordinates are
+ * multiples of their step and refinement never produces duplicates. A hex
+ * that needs detail is replaced by its center plus the six points halfway to
+ * its neighbors (the next level's lattice). Cells get their ideal hexagon as
+ * outline; linkHexCells replaces it with the exact Voronoi cell.
+ */
+export function subdivideHex(
+  width: number,
+  height: number,
+  toneMap: ToneMap,
+  edgeMap: EdgeMap,
+  params: SubdivisionParams,
+  guides: RefineGuides = {}
+): MazeNode[] {
+  const { detailLevel, extraLevel } = latticeDetail(params.detailLevel, guides);
+  const { spacing, levels } = hexLevels(width, height, detailLevel);
+  const needsSplit = createRefineTest(width, height, toneMap, edgeMap, params, guides);
+  const top = Math.pow(2, levels);
+  const coarse = spacing * top;
+
+  const position = (q: number, r: number) => ({ x: spacing * (q + r / 2), y: spacing * (SQRT3 / 2) * r });
+  const hexBounds = (p: Point, size: number) => {
+    const x0 = Math.max(0, p.x - size / 2);
+    const y0 = Math.max(0, p.y - size / SQRT3);
+    const x1 = Math.min(width, p.x + size / 2);
+    const y1 = Math.min(height, p.y + size / SQRT3);
+    return x1 > x0 && y1 > y0 ? { x: x0, y: y0, w: x1 - x0, h: y1 - y0 } : null;
+  };
+
+  // Coarsest lattice over the rectangle plus a margin, so hexes straddling
+  // the frame can refine into it too
+  const levelOf = new Map<string, number>();
+  const queue: { q: number; r: number; level: number }[] = [];
+  const rowStep = coarse * (SQRT3 / 2);
+  for (let row = -1; row * rowStep <= height + rowStep; row++) {
+    const r = row * top;
+    const qFrom = Math.floor((-coarse - (spacing * r) / 2) / coarse) * top;
+    for (let q = qFrom; position(q, r).x <= width + coarse; q += top) {
+      levelOf.set(`${q},${r}`, 0);
+      queue.push({ q, r, level: 0 });
+    }
+  }
+
+  for (let head = 0; head < queue.length; head++) {
+    const { q, r, level } = queue[head];
+    if (level >= levels) continue;
+    const size = spacing * Math.pow(2, levels - level);
+    const bounds = hexBounds(position(q, r), size);
+    if (!bounds || !needsSplit(bounds.x, bounds.y, bounds.w, bounds.h, size)) continue;
+    if (level === levels - 1 && !extraLevel(bounds.x, bounds.y, bounds.w, bounds.h)) continue;
+
+    const half = Math.pow(2, levels - level - 1);
+    for (const [dq, dr] of [[0, 0], ...HEX_DIRECTIONS]) {
+      const cq = q + dq * half;
+      const cr = r + dr * half;
+      const key = `${cq},${cr}`;
+      if ((levelOf.get(key) ?? -1) > level) continue;
+      levelOf.set(key, level + 1);
+      queue.push({ q: cq, r: cr, level: level + 1 });
+    }
+  }
+
+  const nodes: MazeNode[] = [];
+  for (const [key, level] of levelOf) {
+    const [q, r] = key.split(',').map(Number);
+    const center = position(q, r);
+    if (center.x < 0 || center.x > width || center.y < 0 || center.y > height) continue;
+    const size = spacing * Math.pow(2, levels - level);
+    const polygon = clipToRect({ points: hexagon(center.x, center.y, size), labels: Array(6).fill(-1) }, width, height).points;
+    const bounds = polygonBounds(polygon);
+    nodes.push({
+      id: 0,
+      ...bounds,
+      polygon,
+      center,
+      rawBrightness: areaMean(toneMap, bounds.x, bounds.y, bounds.w, bounds.h),
+      visited: false,
+      neighbors: [],
+      connections: new Map(),
+    });
+  }
+
+  // Reading order, like the quadtree's top-left-first ids
+  nodes.sort((a, b) => a.center.y - b.center.y || a.center.x - b.center.x);
+  nodes.forEach((node, i) => (node.id = i));
+  return nodes;
+}
+
+/**
+ * Exact cell outlines and neighbors for hex centers from subdivideHex
+ */
+export function linkHexCells(nodes: MazeNode[], width: number, height: number, toneMap: ToneMap, detailLevel: number): void {
+  const { spacing } = hexLevels(width, height, detailLevel);
+  linkVoronoiCells(nodes, width, height, toneMap, spacing * 2);
+}
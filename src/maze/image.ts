@@ -0,0 +1,164 @@
+/**
+ * Image sampling and tone preprocessing
+ */
+
+import { ImageDataLike, ToneParams } from './types';
+
+/**
+ * Apply brightness, contrast, gamma, posterize and invert to a gray value (0-255)
+ */
+export function applyTone(gray: number, params: ToneParams): number {
+  // Apply brightness (-100 to 100)
+  gray = gray + params.brightness * 2.55;
+
+  // Apply contrast
+  gray = params.contrast * (gray - 128) + 128;
+
+  // Apply gamma correction
+  gray = Math.max(0, Math.min(255, gray));
+  gray = 255 * Math.pow(gray / 255, 1 / params.gamma);
+
+  // Apply posterization (if enabled)
+  if (params.posterize >= 2) {
+    const levels = params.posterize;
+    gray = Math.round(gray / 255 * (levels - 1)) / (levels - 1) * 255;
+  }
+
+  // Apply invert
+  if (params.invert) gray = 255 - gray;
+
+  return Math.max(0, Math.min(255, gray));
+}
+
+/**
+ * Processed brightness at maze resolution (one value per maze pixel) with a
+ * summed-area table for constant-time region means
+ */
+export interface ToneMap {
+  width: number;
+  height: number;
+  values: Float32Array;
+  integral: Float64Array;  // (width + 1) x (height + 1), zero first row/column
+}
+
+/**
+ * Build a summed-area table of size (width + 1) x (height + 1)
+ */
+export function summedArea(width: number, height: number, valueAt: (x: number, y: number) => number): Float64Array {
+  const stride = width + 1;
+  const integral = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += valueAt(x, y);
+      integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + rowSum;
+    }
+  }
+  return integral;
+}
+
+export function rectSum(integral: Float64Array, stride: number, x0: number, y0: number, x1: number, y1: number): number {
+  return integral[y1 * stride + x1] - integral[y0 * stride + x1] - integral[y1 * stride + x0] + integral[y0 * stride + x0];
+}
+
+/**
+ * Whole pixels [x0, x1) x [y0, y1) covering a maze-space rectangle, clamped
+ * to a width x height grid and at least one pixel in each direction
+ */
+export function pixelRect(
+  width: number,
+  height: number,
+  x: number,
+  y: number,
+  w: number,
+  h: number
+): { x0: number; y0: number; x1: number; y1: number } {
+  const x0 = Math.max(0, Math.min(width - 1, Math.floor(x)));
+  const y0 = Math.max(0, Math.min(height - 1, Math.floor(y)));
+  const x1 = Math.max(x0 + 1, Math.min(width, Math.ceil(x + w)));
+  const y1 = Math.max(y0 + 1, Math.min(height, Math.ceil(y + h)));
+  return { x0, y0, x1, y1 };
+}
+
+/**
+ * Mean of a width x height grid (given by its summed-area table) over the
+ * pixels covering a maze-space rectangle
+ */
+export function rectMean(integral: Float64Array, width: number, height: number, x: number, y: number, w: number, h: number): number {
+  const { x0, y0, x1, y1 } = pixelRect(width, height, x, y, w, h);
+  return rectSum(integral, width + 1, x0, y0, x1, y1) / ((x1 - x0) * (y1 - y0));
+}
+
+/**
+ * Resample the source image to maze resolution by area averaging, apply
+ * tone adjustments per pixel, and build the summed-area table. The image is
+ * stretched over the full maze rectangle.
+ */
+export function createToneMap(
+  image: ImageDataLike,
+  mazeWidth: number,
+  mazeHeight: number,
+  params: ToneParams
+): ToneMap {
+  const width = Math.max(1, Math.round(mazeWidth));
+  const height = Math.max(1, Math.round(mazeHeight));
+  const { data } = image;
+  const srcIntegral = summedArea(image.width, image.height, (x, y) => {
+    const idx = (y * image.width + x) * 4;
+    return (data[idx] + data[idx + 1] + data[idx + 2]) / 3;
+  });
+  const srcStride = image.width + 1;
+  const scaleX = image.width / width;
+  const scaleY = image.height / height;
+
+  // Source column span covered by each maze column (at least one pixel)
+  const spanX0 = new Int32Array(width);
+  const spanX1 = new Int32Array(width);
+  for (let x = 0; x < width; x++) {
+    spanX0[x] = Math.min(image.width - 1, Math.floor(x * scaleX));
+    spanX1[x] = Math.max(spanX0[x] + 1, Math.min(image.width, Math.floor((x + 1) * scaleX)));
+  }
+
+  const values = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const sy0 = Math.min(image.height - 1, Math.floor(y * scaleY));
+    const sy1 = Math.max(sy0 + 1, Math.min(image.height, Math.floor((y + 1) * scaleY)));
+    for (let x = 0; x < width; x++) {
+      const area = (spanX1[x] - spanX0[x]) * (sy1 - sy0);
+      const gray = rectSum(srcIntegral, srcStride, spanX0[x], sy0, spanX1[x], sy1) / area;
+      values[y * width + x] = applyTone(gray, params);
+    }
+  }
+
+  const integral = summedArea(width, height, (x, y) => values[y * width + x]);
+
+  return { width, height, values, integral };
+}
+
+/**
+ * Processed brightness at a maze-space point
+ */
+export function sampleTone(map: ToneMap, x: number, y: number): number {
+  const px = Math.max(0, Math.min(map.width - 1, Math.floor(x)));
+  const py = Math.max(0, Math.min(map.height - 1, Math.floor(y)));
+  return map.values[py * map.width + px];
+}
+
+/**
+ * Mean processed brightness over a maze-space rectangle (at least one pixel)
+ */
+export function areaMean(map: ToneMap, x: number, y: number, w: number, h: number): number {
+  return rectMean(map.integral, map.width, map.height, x, y, w, h);
+}
+
+/**
+ * Compute maze dimensions that fit `resolution` on the long side
+ */
+export function getMazeDimensions(aspectRatio: number, resolution: number): { width: number; height: number } {
+  if (aspectRatio >= 1) {
+    // Landscape or square
+    return { width: resolution, height: Math.round(resolution / aspectRatio) };
+  }
+  // Portrait
+  return { width: Math.round(resolution * aspectRatio), height: resolution };
+}
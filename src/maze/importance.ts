@@ -0,0 +1,82 @@
+/**
+ * Importance brush: painted "more detail" / "less detail" regions that
+ * locally scale the refinement threshold
+ */
+
+import { rectMean, summedArea } from './image';
+import { forEachStrokePixel } from './mask';
+import { Point } from './types';
+
+/**
+ * Brush stroke in maze coordinates. `amount` runs from -1 (full "less
+ * detail") to 1 (full "more detail"); strength falls off toward the rim.
+ */
+export interface ImportanceStroke {
+  points: Point[];
+  radius: number;
+  amount: number;
+}
+
+/**
+ * Summed stroke importance per maze pixel, clamped to -1..1, with a
+ * summed-area table for constant-time region means
+ */
+export interface ImportanceMap {
+  width: number;
+  height: number;
+  values: Float32Array;
+  integral: Float64Array;  // (width + 1) x (height + 1), zero first row/column
+  peak: number;            // largest value; above 0 some region asks for more detail
+}
+
+/**
+ * Rasterize the strokes, or null when there are none. Each stroke counts
+ * once per pixel (its strongest point), so slow drags don't pile up.
+ */
+export function createImportanceMap(width: number, height: number, strokes: ImportanceStroke[] = []): ImportanceMap | null {
+  if (strokes.length === 0) return null;
+  const values = new Float32Array(width * height);
+  const stamp = new Float32Array(width * height);
+
+  for (const { points, radius, amount } of strokes) {
+    if (points.length === 0 || radius <= 0) continue;
+    const touched: number[] = [];
+    forEachStrokePixel(points, radius, width, height, (k, d) => {
+      // Smoothstep falloff so painted regions blend into the global settings
+      const t = d / radius;
+      const falloff = 1 - t * t * (3 - 2 * t);
+      if (falloff <= stamp[k]) return;
+      if (stamp[k] === 0) touched.push(k);
+      stamp[k] = falloff;
+    });
+
+    for (const k of touched) {
+      values[k] += amount * stamp[k];
+      stamp[k] = 0;
+    }
+  }
+
+  let peak = -1;
+  for (let k = 0; k < values.length; k++) {
+    values[k] = Math.max(-1, Math.min(1, values[k]));
+    peak = Math.max(peak, values[k]);
+  }
+  return { width, height, values, integral: summedArea(width, height, (x, y) => values[y * width + x]), peak };
+}
+
+/**
+ * Mean importance (-1..1) over a maze-space rectangle
+ */
+export function importanceIn(map: ImportanceMap, x: number, y: number, w: number, h: number): number {
+  return rectMean(map.integral, map.width, map.height, x, y, w, h);
+}
+
+/**
+ * Refinement scale for a region, 2^-importance: 0.5 under full "more
+ * detail", 2 under full "less detail". The minimum cell size is multiplied
+ * by it (one detail level either way) and the tone/edge threshold by its
+ * square.
+ */
+export function importanceScale(map: ImportanceMap, x: number, y: number, w: number, h: number): number {
+  return Math.pow(2, -importanceIn(map, x, y, w, h));
+}
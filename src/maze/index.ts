@@ -0,0 +1,94 @@
+/**
+ * Maze engine module - framework-free maze generation
+ */
+
+export { generateMaze, MAZE_STAGES } from './generate';
+export type { MazeStage, GenerateOptions } from './generate';
+
+export { startMazeJob } from './client';
+export type { MazeJob } from './client';
+
+export { applyTone, createToneMap, sampleTone, areaMean, rectMean, pixelRect, getMazeDimensions } from './image';
+export type { ToneMap } from './image';
+
+export { subdivide, findNeighbors, getMinCellSize, createRefineTest, detailThreshold, latticeDetail } from './quadtree';
+export type { SubdivisionParams, RefineGuides } from './quadtree';
+
+export { buildCells, linkCells, TESSELLATIONS } from './tessellation';
+export type { Tessellation } from './tessellation';
+export { subdivideHex, linkHexCells } from './hexgrid';
+export { subdivideTriangles, linkTriangleCells } from './trigrid';
+export { voronoiCells, linkVoronoiCells } from './voronoi';
+export { stippleSeeds, subdivideVoronoi } from './stipple';
+export { subdividePolar, linkPolarCells } from './polar';
+export { findEndpoints, portalToward, ENDPOINT_LAYOUTS } from './endpoints';
+export type { EndpointLayout, EndpointParams } from './endpoints';
+export {
+  rectPolygon,
+  clipHalfPlane,
+  clipToRect,
+  polygonArea,
+  polygonBounds,
+  containsPoint,
+  sideLabel,
+  boundarySegments,
+  frameOpening,
+  sideNormal,
+  sideLength,
+  arcPoint,
+  arcPoints,
+  sideMidpoint,
+} from './cells';
+export type { LabeledPolygon, Facing } from './cells';
+
+export { createMask, maskCoverage, applyMask, forEachStrokePixel, MASK_MODES } from './mask';
+export type { MaskMode, MaskStroke, MaskParams, MaskMap } from './mask';
+
+export { createImportanceMap, importanceIn, importanceScale } from './importance';
+export type { ImportanceStroke, ImportanceMap } from './importance';
+
+export { carveDFS, connect, solveBFS, hopDistances, tracePath } from './carve';
+
+export { computeGradients, createEdgeMap, edgeStrengthIn } from './edges';
+export type { MazeFields, EdgeMap, EdgeMetric } from './edges';
+
+export { createWarp, fieldExtent, fieldWarp, densify } from './warp';
+export type { WarpFn } from './warp';
+
+export { createNoise2D, createNoiseWarp } from './noise';
+export type { NoiseAmplitudes } from './noise';
+
+export { extractWalls, getMazeWarp, solutionPoints, mazeOpenings, portalMarks, markGlyph } from './geometry';
+export type { MazeWall, DeformOptions, PortalMark } from './geometry';
+
+export { carveMaze, carveWilson, carveKruskal, carvePrim, carveGrowingTree, carveToneAware, CARVE_ALGORITHMS } from './algorithms';
+export type { CarveAlgorithm, CarveOptions, GrowingTreePick } from './algorithms';
+
+export { weaveMaze, WEAVE_INSET } from './weave';
+export type { WeaveParams } from './weave';
+
+export { braidMaze } from './braid';
+export type { BraidParams } from './braid';
+
+export { createRandom, randomSeed, MAX_SEED } from './random';
+export type { RandomFn } from './random';
+
+export { routeAlongContours, cheapestPath, cellEdgeStrengths, SOLUTION_ROUTES } from './routing';
+export type { SolutionRoute } from './routing';
+
+export { validateMaze } from './validate';
+
+export { mazeStats } from './stats';
+export type { MazeStats, Difficulty } from './stats';
+
+export { diagnosticHeatmap, heatColor, subdivisionDepth, DIAGNOSTIC_OVERLAYS } from './diagnostics';
+export type { DiagnosticOverlay, Heatmap } from './diagnostics';
+
+export { searchDifficulty } from './target';
+export type { TargetParams, TargetResult, TargetProgress } from './target';
+
+export { findNearestNode, findPathBFS, mapWaypointsToPath, simplifyPolyline } from './waypoints';
+export type { WaypointPath } from './waypoints';
+
+export { createEmptyMaze } from './types';
+export type { Point, Arc, CellSide, MazeNeighbor, MazeNode, MazePortal, MazeData, ImageDataLike, ToneParams, MazeParams } from './types';
@@ -0,0 +1,205 @@
+/**
+ * Shape masks: confine the maze to the subject's silhouette
+ */
+
+import { ToneMap, rectMean, summedArea } from './image';
+import { ImageDataLike, MazeNode, Point } from './types';
+
+export type MaskMode = 'none' | 'alpha' | 'threshold' | 'paint';
+
+export const MASK_MODES: { id: MaskMode; label: string }[] = [
+  { id: 'none', label: 'Full rectangle' },
+  { id: 'alpha', label: 'Image transparency' },
+  { id: 'threshold', label: 'Background threshold' },
+  { id: 'paint', label: 'Painted only' },
+];
+
+/**
+ * Brush stroke in maze coordinates; adds to the mask, or cuts from it when
+ * `erase` is set
+ */
+export interface MaskStroke {
+  points: Point[];
+  radius: number;
+  erase: boolean;
+}
+
+export interface MaskParams {
+  maskMode: MaskMode;
+  maskThreshold: number;       // processed brightness (0-255) at or above which the border background floods
+  maskStrokes?: MaskStroke[];  // painted on top of any mode
+}
+
+/**
+ * Inside (1) or outside (0) per maze pixel, with a summed-area table for
+ * constant-time coverage of a region
+ */
+export interface MaskMap {
+  width: number;
+  height: number;
+  values: Uint8Array;
+  integral: Float64Array;  // (width + 1) x (height + 1), zero first row/column
+}
+
+// Cells need at least this share of their bounding box inside the mask
+const KEEP_COVERAGE = 0.5;
+
+// Cells straddling the mask outline refine down to this many minimum cell
+// sizes, so the outer wall follows the silhouette closely
+export const MASK_EDGE_CELLS = 2;
+
+/**
+ * Build the mask at the tone map's (maze) resolution, or null when the maze
+ * fills the whole rectangle (mode 'none' with no strokes, or a mask with
+ * nothing inside)
+ */
+export function createMask(image: ImageDataLike, toneMap: ToneMap, params: MaskParams): MaskMap | null {
+  const { width, height } = toneMap;
+  const strokes = params.maskStrokes ?? [];
+  if (params.maskMode === 'none' && strokes.length === 0) return null;
+
+  const values = new Uint8Array(width * height);
+  switch (params.maskMode) {
+    case 'alpha':
+      for (let y = 0; y < height; y++) {
+        const sy = Math.min(image.height - 1, Math.floor((y * image.height) / height));
+        for (let x = 0; x < width; x++) {
+          const sx = Math.min(image.width - 1, Math.floor((x * image.width) / width));
+          values[y * width + x] = image.data[(sy * image.width + sx) * 4 + 3] >= 128 ? 1 : 0;
+        }
+      }
+      break;
+    case 'threshold':
+      floodBackground(toneMap, params.maskThreshold, values);
+      break;
+    case 'paint':
+      break;
+    case 'none':
+    default:
+      values.fill(1);
+  }
+
+  for (const { points, radius, erase } of strokes) {
+    const value = erase ? 0 : 1;
+    forEachStrokePixel(points, radius, width, height, (k) => (values[k] = value));
+  }
+
+  if (!values.includes(1)) return null;
+  return { width, height, values, integral: summedArea(width, height, (x, y) => values[y * width + x]) };
+}
+
+/**
+ * Everything reachable from the image border through pixels at least as
+ * bright as `threshold` is background; the rest (the subject, including
+ * bright enclosed areas like eyes and teeth) is inside
+ */
+function floodBackground(toneMap: ToneMap, threshold: number, values: Uint8Array): void {
+  const { width, height } = toneMap;
+  values.fill(1);
+  const queue = new Int32Array(width * height);
+  let tail = 0;
+  const visit = (i: number) => {
+    if (values[i] === 0 || toneMap.values[i] < threshold) return;
+    values[i] = 0;
+    queue[tail++] = i;
+  };
+
+  for (let x = 0; x < width; x++) {
+    visit(x);
+    visit((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    visit(y * width);
+    visit(y * width + width - 1);
+  }
+  for (let head = 0; head < tail; head++) {
+    const i = queue[head];
+    const x = i % width;
+    if (x > 0) visit(i - 1);
+    if (x < width - 1) visit(i + 1);
+    if (i >= width) visit(i - width);
+    if (i < width * (height - 1)) visit(i + width);
+  }
+}
+
+/**
+ * Visit every pixel whose center lies within `radius` of the stroke's
+ * polyline (a round brush), clipped to the maze, with its pixel index and
+ * distance to the segment being drawn. Pixels where segments overlap are
+ * visited once per segment; callers keep the value they want.
+ */
+export function forEachStrokePixel(
+  points: Point[],
+  radius: number,
+  width: number,
+  height: number,
+  fn: (k: number, d: number) => void
+): void {
+  const r2 = radius * radius;
+  points.forEach((b, i) => {
+    const a = points[Math.max(0, i - 1)];
+    const x0 = Math.max(0, Math.floor(Math.min(a.x, b.x) - radius));
+    const x1 = Math.min(width - 1, Math.ceil(Math.max(a.x, b.x) + radius));
+    const y0 = Math.max(0, Math.floor(Math.min(a.y, b.y) - radius));
+    const y1 = Math.min(height - 1, Math.ceil(Math.max(a.y, b.y) + radius));
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const len2 = dx * dx + dy * dy;
+    for (let y = y0; y <= y1; y++) {
+      for (let x = x0; x <= x1; x++) {
+        // Distance from the pixel center to segment a-b
+        const px = x + 0.5;
+        const py = y + 0.5;
+        const t = len2 > 0 ? Math.max(0, Math.min(1, ((px - a.x) * dx + (py - a.y) * dy) / len2)) : 0;
+        const ex = a.x + dx * t - px;
+        const ey = a.y + dy * t - py;
+        const d2 = ex * ex + ey * ey;
+        if (d2 <= r2) fn(y * width + x, Math.sqrt(d2));
+      }
+    }
+  });
+}
+
+/**
+ * Share (0-1) of a maze-space rectangle inside the mask
+ */
+export function maskCoverage(mask: MaskMap, x: number, y: number, w: number, h: number): number {
+  return rectMean(mask.integral, mask.width, mask.height, x, y, w, h);
+}
+
+/**
+ * Drop linked cells mostly outside the mask and unlink them from the rest,
+ * so their former neighbors get outer walls along the silhouette. Only the
+ * largest connected piece is kept (the maze must be one tree); ids are
+ * renumbered in the original order.
+ */
+export function applyMask(nodes: MazeNode[], mask: MaskMap): MazeNode[] {
+  const inside = new Set(nodes.filter((node) => maskCoverage(mask, node.x, node.y, node.w, node.h) >= KEEP_COVERAGE));
+
+  // Largest connected piece among the kept cells
+  let best = new Set<MazeNode>();
+  const seen = new Set<MazeNode>();
+  for (const node of inside) {
+    if (seen.has(node)) continue;
+    const piece = new Set<MazeNode>([node]);
+    const queue = [node];
+    seen.add(node);
+    for (let head = 0; head < queue.length; head++) {
+      for (const { node: nb } of queue[head].neighbors) {
+        if (!inside.has(nb) || seen.has(nb)) continue;
+        seen.add(nb);
+        piece.add(nb);
+        queue.push(nb);
+      }
+    }
+    if (piece.size > best.size) best = piece;
+  }
+  if (best.size === 0) return nodes;
+
+  const kept = nodes.filter((node) => best.has(node));
+  kept.forEach((node, i) => {
+    node.id = i;
+    node.neighbors = node.neighbors.filter(({ node: nb }) => best.has(nb));
+  });
+  return kept;
+}
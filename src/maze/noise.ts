@@ -0,0 +1,99 @@
+/**
+ * Seeded multi-octave noise deformation for hand-drawn looking walls
+ */
+
+import { createRandom } from './random';
+import { WarpFn, fieldExtent, fieldWarp } from './warp';
+
+export interface NoiseAmplitudes {
+  macro: number;   // px, large-scale sway
+  medium: number;  // px, organic flow
+  fine: number;    // px, pen-like texture
+}
+
+/**
+ * Seeded 2D value noise in [-1, 1] with quintic interpolation
+ */
+export function createNoise2D(seed: number): (x: number, y: number) => number {
+  const random = createRandom(seed);
+  const perm = new Uint8Array(512);
+  const values = new Float32Array(256);
+  for (let i = 0; i < 256; i++) {
+    perm[i] = i;
+    values[i] = random() * 2 - 1;
+  }
+  for (let i = 255; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [perm[i], perm[j]] = [perm[j], perm[i]];
+  }
+  for (let i = 0; i < 256; i++) perm[i + 256] = perm[i];
+
+  const fade = (t: number) => t * t * t * (t * (t * 6 - 15) + 10);
+  const lattice = (ix: number, iy: number) => values[perm[(perm[ix & 255] + iy) & 511]];
+
+  return (x: number, y: number) => {
+    const ix = Math.floor(x);
+    const iy = Math.floor(y);
+    const u = fade(x - ix);
+    const v = fade(y - iy);
+    const a = lattice(ix, iy) + (lattice(ix + 1, iy) - lattice(ix, iy)) * u;
+    const b = lattice(ix, iy + 1) + (lattice(ix + 1, iy + 1) - lattice(ix, iy + 1)) * u;
+    return a + (b - a) * v;
+  };
+}
+
+/**
+ * Build a displacement field from three noise octaves (wavelengths scale
+ * with the maze) sampled onto a grid finer than the finest octave.
+ *
+ * Like the contour warp, the field is scaled down if needed so its Jacobian
+ * norm stays at most 0.5 (plus at most 0.25 from the border fade). Every
+ * wall is moved by the same continuous map, so junctions stay joined,
+ * neighboring walls never cross, and a corridor keeps at least a quarter of
+ * its width.
+ */
+export function createNoiseWarp(
+  width: number,
+  height: number,
+  seed: number,
+  amplitudes: NoiseAmplitudes
+): WarpFn | null {
+  const maxDim = Math.max(width, height);
+  const octaves = [
+    { wavelength: maxDim / 4, amplitude: amplitudes.macro },
+    { wavelength: maxDim / 16, amplitude: amplitudes.medium },
+    { wavelength: Math.max(6, maxDim / 100), amplitude: amplitudes.fine },
+  ].filter((o) => o.amplitude > 0);
+  if (octaves.length === 0) return null;
+
+  // Independent noise per axis and octave
+  const noiseX = octaves.map((_, i) => createNoise2D(seed + 101 * i));
+  const noiseY = octaves.map((_, i) => createNoise2D(seed + 101 * i + 53));
+
+  const step = Math.max(1, Math.min(...octaves.map((o) => o.wavelength)) / 4);
+  const cols = Math.ceil(width / step) + 1;
+  const rows = Math.ceil(height / step) + 1;
+  const dx = new Float32Array(cols * rows);
+  const dy = new Float32Array(cols * rows);
+
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const x = c * step;
+      const y = r * step;
+      let sx = 0;
+      let sy = 0;
+      octaves.forEach((o, i) => {
+        sx += noiseX[i](x / o.wavelength, y / o.wavelength) * o.amplitude;
+        sy += noiseY[i](x / o.wavelength, y / o.wavelength) * o.amplitude;
+      });
+      dx[r * cols + c] = sx;
+      dy[r * cols + c] = sy;
+    }
+  }
+
+  // Border fade wide enough that its own slope contribution stays <= 0.25
+  const { peak, slope } = fieldExtent(dx, dy, cols, rows, step);
+  const scale = slope > 0.5 ? 0.5 / slope : 1;
+  const fade = Math.max(1, peak * scale * 4);
+  return fieldWarp(dx, dy, cols, rows, step, scale, fade, width, height);
+}
@@ -0,0 +1,235 @@
+/**
+ * Polar cells for round mazes: concentric rings around the frame center,
+ * cut into sectors and split in half both ways (radius and angle) wherever
+ * the shared tone/edge test asks for detail. A disc at the center makes the
+ * natural goal.
+ */
+
+import { ToneMap, areaMean } from './image';
+import { EdgeMap } from './edges';
+import { RefineGuides, SubdivisionParams, createRefineTest, getMinCellSize, latticeDetail } from './quadtree';
+import { EDGE_EPS, polygonBounds } from './cells';
+import { Arc, MazeNode, Point } from './types';
+
+// Cell outlines sample their arcs at least this finely (radians)
+const ARC_STEP = Math.PI / 64;
+
+/**
+ * Radii are whole units of `unit` px from the center, angles whole steps of
+ * a full turn / `turns`, counted clockwise from straight up. The core disc
+ * has a radius of `core` units; around it lie coarse rings 2^levels units
+ * thick, ring i cut into sectors[i] coarse sectors. Sector counts are
+ * powers of two, so every refined boundary falls on a whole step.
+ */
+interface PolarLattice {
+  cx: number;
+  cy: number;
+  unit: number;
+  core: number;
+  levels: number;
+  sectors: number[];
+  turns: number;
+}
+
+function polarLattice(width: number, height: number, detailLevel: number): PolarLattice {
+  const radius = Math.min(width, height) / 2;
+  // Radius in finest rings, which are a minimum cell thick
+  const fine = radius / getMinCellSize(width, height, detailLevel);
+  let levels = 0;
+  while (Math.pow(2, levels + 3) <= fine) levels++;
+  const band = Math.pow(2, levels);
+  const core = Math.max(1, band / 2);
+  const rings = Math.max(1, Math.round((fine - core) / band));
+
+  // Coarse sectors about as long (at mid radius) as the ring is thick
+  const sectors = Array.from({ length: rings }, (_, i) => {
+    const mid = core + (i + 0.5) * band;
+    return Math.max(4, Math.pow(2, Math.round(Math.log2((2 * Math.PI * mid) / band))));
+  });
+
+  return {
+    cx: width / 2,
+    cy: height / 2,
+    unit: radius / (core + rings * band),
+    core,
+    levels,
+    sectors,
+    turns: Math.max(...sectors) * band,
+  };
+}
+
+const stepAngle = (lat: PolarLattice, t: number) => -Math.PI / 2 + (t / lat.turns) * 2 * Math.PI;
+
+const polarPoint = (lat: PolarLattice, r: number, angle: number): Point => ({
+  x: lat.cx + r * Math.cos(angle),
+  y: lat.cy + r * Math.sin(angle),
+});
+
+/**
+ * Angles from a0 to a1 at most ARC_STEP apart, ends exact
+ */
+function arcAngles(a0: number, a1: number): number[] {
+  const steps = Math.max(1, Math.ceil((a1 - a0) / ARC_STEP));
+  return Array.from({ length: steps + 1 }, (_, s) => (s === steps ? a1 : a0 + ((a1 - a0) * s) / steps));
+}
+
+/**
+ * Clockwise outline of the sector between radii r0 < r1 (px) and angles
+ * a0 < a1: outer arc, inward along a1, inner arc back, outward along a0
+ */
+function sectorOutline(lat: PolarLattice, r0: number, r1: number, a0: number, a1: number) {
+  const angles = arcAngles(a0, a1);
+  const polygon: Point[] = [];
+  const arcs: (Arc | null)[] = [];
+  const arc = (r: number, s: number): Arc => ({ cx: lat.cx, cy: lat.cy, r, a0: angles[s], a1: angles[s + 1] });
+
+  for (let s = 0; s < angles.length - 1; s++) {
+    polygon.push(polarPoint(lat, r1, angles[s]));
+    arcs.push(arc(r1, s));
+  }
+  polygon.push(polarPoint(lat, r1, a1));
+  arcs.push(null);
+  for (let s = angles.length - 1; s > 0; s--) {
+    polygon.push(polarPoint(lat, r0, angles[s]));
+    arcs.push(arc(r0, s - 1));
+  }
+  polygon.push(polarPoint(lat, r0, a0));
+  arcs.push(null);
+  return { polygon, arcs };
+}
+
+/**
+ * Build the core disc and the refined ring sectors. The core comes first,
+ * then the rings outward, each clockwise from the top.
+ */
+export function subdividePolar(
+  width: number,
+  height: number,
+  toneMap: ToneMap,
+  edgeMap: EdgeMap,
+  params: SubdivisionParams,
+  guides: RefineGuides = {}
+): MazeNode[] {
+  const { detailLevel, extraLevel } = latticeDetail(params.detailLevel, guides);
+  const lat = polarLattice(width, height, detailLevel);
+  const needsSplit = createRefineTest(width, height, toneMap, edgeMap, params, guides);
+  const nodes: MazeNode[] = [];
+
+  const addNode = (polygon: Point[], arcs: (Arc | null)[], center: Point) => {
+    const bounds = polygonBounds(polygon);
+    nodes.push({
+      id: nodes.length,
+      ...bounds,
+      polygon,
+      arcs,
+      center,
+      rawBrightness: areaMean(toneMap, bounds.x, bounds.y, bounds.w, bounds.h),
+      visited: false,
+      neighbors: [],
+      connections: new Map(),
+    });
+  };
+
+  // Core disc, its rim in arc pieces from the top
+  const coreRadius = lat.core * lat.unit;
+  const angles = arcAngles(-Math.PI / 2, (3 * Math.PI) / 2).slice(0, -1);
+  addNode(
+    angles.map((a) => polarPoint(lat, coreRadius, a)),
+    angles.map((a, s) => ({ cx: lat.cx, cy: lat.cy, r: coreRadius, a0: a, a1: angles[s + 1] ?? (3 * Math.PI) / 2 })),
+    { x: lat.cx, y: lat.cy }
+  );
+
+  // Sector in lattice units: radii r0..r1, steps t0..t1
+  const visit = (r0: number, r1: number, t0: number, t1: number) => {
+    const a0 = stepAngle(lat, t0);
+    const a1 = stepAngle(lat, t1);
+    const { polygon, arcs } = sectorOutline(lat, r0 * lat.unit, r1 * lat.unit, a0, a1);
+    const bounds = polygonBounds(polygon);
+    const thickness = (r1 - r0) * lat.unit;
+    const length = ((r0 + r1) / 2) * lat.unit * (a1 - a0);
+    const finest = extraLevel(bounds.x, bounds.y, bounds.w, bounds.h) ? 1 : 2;
+    if (r1 - r0 > finest && needsSplit(bounds.x, bounds.y, bounds.w, bounds.h, Math.min(thickness, length))) {
+      const rm = (r0 + r1) / 2;
+      const tm = (t0 + t1) / 2;
+      visit(r0, rm, t0, tm);
+      visit(r0, rm, tm, t1);
+      visit(rm, r1, t0, tm);
+      visit(rm, r1, tm, t1);
+      return;
+    }
+    addNode(polygon, arcs, polarPoint(lat, ((r0 + r1) / 2) * lat.unit, (a0 + a1) / 2));
+  };
+
+  const band = Math.pow(2, lat.levels);
+  lat.sectors.forEach((count, ring) => {
+    const r0 = lat.core + ring * band;
+    const span = lat.turns / count;
+    for (let s = 0; s < count; s++) visit(r0, r0 + band, s * span, (s + 1) * span);
+  });
+  return nodes;
+}
+
+/**
+ * Link cells sharing a ring boundary (an arc at a whole radius) or a
+ * radial line (at a whole angle step). Each cell's lattice span is read
+ * back from its outline arcs; overlapping spans on the same line are
+ * neighbors. Side labels name the direction of travel: outward, inward,
+ * clockwise or counterclockwise.
+ */
+export function linkPolarCells(nodes: MazeNode[], width: number, height: number, detailLevel: number): void {
+  const lat = polarLattice(width, height, detailLevel);
+  const { cx, cy, unit, turns } = lat;
+  type Span = { node: MazeNode; t0: number; t1: number; side: string };
+  const lines = new Map<string, Span[]>();
+  const add = (key: string, span: Span) => (lines.get(key) ?? (lines.set(key, []), lines.get(key)!)).push(span);
+  const toStep = (a: number) => Math.round(((a + Math.PI / 2) / (2 * Math.PI)) * turns);
+
+  for (const node of nodes) {
+    node.neighbors = [];
+    const curves = (node.arcs ?? []).filter((arc): arc is Arc => arc !== null);
+    if (curves.length === 0) continue;
+    const r0 = Math.round(Math.min(...curves.map((arc) => arc.r)) / unit);
+    const r1 = Math.round(Math.max(...curves.map((arc) => arc.r)) / unit);
+    const t0 = toStep(Math.min(...curves.map((arc) => arc.a0)));
+    const t1 = toStep(Math.max(...curves.map((arc) => arc.a1)));
+
+    add(`a${r1}`, { node, t0, t1, side: 'outward' });
+    if (r0 === r1) continue; // the core disc has no inner ring or radial sides
+    add(`a${r0}`, { node, t0, t1, side: 'inward' });
+    add(`r${t0 % turns}`, { node, t0: r0, t1: r1, side: 'counterclockwise' });
+    add(`r${t1 % turns}`, { node, t0: r0, t1: r1, side: 'clockwise' });
+  }
+
+  for (const [key, spans] of lines) {
+    spans.sort((p, q) => p.t0 - q.t0);
+    const c = Number(key.slice(1));
+
+    for (let i = 0; i < spans.length; i++) {
+      for (let j = i + 1; j < spans.length && spans[j].t0 < spans[i].t1; j++) {
+        const a = spans[i];
+        const b = spans[j];
+        if (a.node === b.node) continue;
+        const s0 = Math.max(a.t0, b.t0);
+        const s1 = Math.min(a.t1, b.t1);
+        let edge: [Point, Point];
+        let arc: Arc | undefined;
+        let mid: Point;
+        if (key[0] === 'a') {
+          arc = { cx, cy, r: c * unit, a0: stepAngle(lat, s0), a1: stepAngle(lat, s1) };
+          if (arc.r * (arc.a1 - arc.a0) <= EDGE_EPS) continue;
+          edge = [polarPoint(lat, arc.r, arc.a0), polarPoint(lat, arc.r, arc.a1)];
+          mid = polarPoint(lat, arc.r, (arc.a0 + arc.a1) / 2);
+        } else {
+          const angle = stepAngle(lat, c);
+          edge = [polarPoint(lat, s0 * unit, angle), polarPoint(lat, s1 * unit, angle)];
+          if ((s1 - s0) * unit <= EDGE_EPS) continue;
+          mid = polarPoint(lat, ((s0 + s1) / 2) * unit, angle);
+        }
+        a.node.neighbors.push({ node: b.node, side: a.side, mid, edge, arc });
+        b.node.neighbors.push({ node: a.node, side: b.side, mid, edge, arc });
+      }
+    }
+  }
+
+  for (const node of nodes) node.neighbors.sort((p, q) => p.node.id - q.node.id);
+}
@@ -0,0 +1,278 @@
+/**
+ * Adaptive quadtree subdivision and adjacency detection
+ */
+
+import { MazeNeighbor, MazeNode, Point } from './types';
+import { ToneMap, areaMean } from './image';
+import { EdgeMap, EdgeMetric, edgeStrengthIn } from './edges';
+import { rectPolygon } from './cells';
+import { MaskMap, MASK_EDGE_CELLS, maskCoverage } from './mask';
+import { ImportanceMap, importanceIn, importanceScale } from './importance';
+
+export interface SubdivisionParams {
+  densityBias: number;
+  detailLevel: number;
+  edgeFocus: number;
+  edgeMetric: EdgeMetric;
+}
+
+/**
+ * Optional maps steering refinement beyond the global detail settings
+ */
+export interface RefineGuides {
+  mask?: MaskMap | null;              // cells outside stay coarse, its outline refines
+  importance?: ImportanceMap | null;  // painted more/less detail
+}
+
+/**
+ * Convert detailLevel (1-8) to minCellSize.
+ * Level 1 = coarse (large cells), Level 8 = fine (tiny cells)
+ * At base 800px: level 1 = 100px, level 8 = ~3px
+ */
+export function getMinCellSize(width: number, height: number, detailLevel: number): number {
+  const maxDim = Math.max(width, height);
+  return maxDim / Math.pow(2, detailLevel + 2);
+}
+
+/**
+ * Hex, triangle and polar cells can't refine past their lattice's finest
+ * level, which sits at the global minimum size. Painted "more detail"
+ * builds the lattice one level finer; `extraLevel` tells whether a cell
+ * (by bounding box) may refine into that added level, i.e. lies under the
+ * brush. Linking must use the same detail level.
+ */
+export function latticeDetail(
+  detailLevel: number,
+  { importance }: RefineGuides = {}
+): { detailLevel: number; extraLevel: (x: number, y: number, w: number, h: number) => boolean } {
+  if (!importance || importance.peak <= 0) return { detailLevel, extraLevel: () => true };
+  return { detailLevel: detailLevel + 1, extraLevel: (x, y, w, h) => importanceIn(importance, x, y, w, h) > 0 };
+}
+
+/**
+ * The shared refinement rule: a cell (given by its bounding box) splits
+ * while it is larger than the minimum size and larger than a threshold that
+ * shrinks in dark regions and near strong edges. Every tessellation refines
+ * with this test so detail settings mean the same thing for all of them.
+ * `size` defaults to the box's short side; cells clipped by the frame pass
+ * their unclipped size so thin border strips still refine. With a mask,
+ * cells fully outside never split and cells across its outline always do
+ * (down to a few minimum sizes). Painted importance scales both the
+ * minimum size and the threshold under the brush.
+ */
+export function createRefineTest(
+  width: number,
+  height: number,
+  toneMap: ToneMap,
+  edgeMap: EdgeMap,
+  params: SubdivisionParams,
+  { mask, importance }: RefineGuides = {}
+): (x: number, y: number, w: number, h: number, size?: number) => boolean {
+  const maxDim = Math.max(width, height);
+  const minCellSize = getMinCellSize(width, height, params.detailLevel);
+
+  // Scale thresholds relative to resolution for consistency
+  const baseResolution = 800;
+  const resScale = maxDim / baseResolution;
+
+  return (x, y, w, h, size = Math.min(w, h)) => {
+    if (mask) {
+      const coverage = maskCoverage(mask, x, y, w, h);
+      if (coverage === 0) return false;
+      if (coverage < 1 && size > minCellSize * MASK_EDGE_CELLS) return true;
+    }
+    const bMean = areaMean(toneMap, x, y, w, h);
+    const edgeStrength = edgeStrengthIn(edgeMap, x, y, w, h, params.edgeMetric);
+    const scale = importance ? importanceScale(importance, x, y, w, h) : 1;
+    return size > minCellSize * scale && size > detailThreshold(bMean, edgeStrength, params, resScale) * scale * scale;
+  };
+}
+
+/**
+ * Cell size (px) below which a region stops refining, given its mean
+ * brightness and edge strength (both 0-255)
+ */
+export function detailThreshold(
+  brightness: number,
+  edgeStrength: number,
+  params: SubdivisionParams,
+  resScale: number
+): number {
+  // Tone map is already preprocessed (invert applied), so use it directly
+  const toneThreshold = (brightness / 255) * 45 * params.densityBias * resScale;
+  return toneThreshold - (edgeStrength / 255) * 30 * params.edgeFocus * resScale;
+}
+
+/**
+ * Recursively split the maze rectangle into leaf cells, finer where the
+ * image is dark or has strong edges. Tone is the area mean over each
+ * candidate cell, so every leaf's rawBrightness reflects the whole region;
+ * edge strength is the Sobel gradient (max or mean) inside the cell.
+ */
+export function subdivide(
+  width: number,
+  height: number,
+  toneMap: ToneMap,
+  edgeMap: EdgeMap,
+  params: SubdivisionParams,
+  guides: RefineGuides = {}
+): MazeNode[] {
+  const nodes: MazeNode[] = [];
+  const needsSplit = createRefineTest(width, height, toneMap, edgeMap, params, guides);
+
+  const split = (x: number, y: number, w: number, h: number) => {
+    if (needsSplit(x, y, w, h)) {
+      // Subdivide to keep cells roughly square
+      const aspectRatio = w / h;
+      if (aspectRatio > 1.5) {
+        // Too wide - split horizontally only
+        const hw = w / 2;
+        split(x, y, hw, h);
+        split(x + hw, y, hw, h);
+      } else if (aspectRatio < 0.67) {
+        // Too tall - split vertically only
+        const hh = h / 2;
+        split(x, y, w, hh);
+        split(x, y + hh, w, hh);
+      } else {
+        // Roughly square - split into 4 quadrants
+        const hw = w / 2;
+        const hh = h / 2;
+        split(x, y, hw, hh);
+        split(x + hw, y, hw, hh);
+        split(x, y + hh, hw, hh);
+        split(x + hw, y + hh, hw, hh);
+      }
+    } else {
+      nodes.push({
+        id: nodes.length,
+        x,
+        y,
+        w,
+        h,
+        polygon: rectPolygon(x, y, w, h),
+        center: { x: x + w / 2, y: y + h / 2 },
+        rawBrightness: areaMean(toneMap, x, y, w, h),  // Mean processed brightness over the cell
+        visited: false,
+        neighbors: [],
+        connections: new Map(),
+      });
+    }
+  };
+
+  split(0, 0, width, height);
+  return nodes;
+}
+
+const ADJACENCY_EPS = 0.1;
+
+/**
+ * Describe the shared edge between two touching cells from `a`'s point of view
+ */
+function describeAdjacency(a: MazeNode, b: MazeNode): MazeNeighbor | null {
+  const nEps = ADJACENCY_EPS;
+  const xOverlap = Math.min(a.x + a.w, b.x + b.w) - Math.max(a.x, b.x);
+  const yOverlap = Math.min(a.y + a.h, b.y + b.h) - Math.max(a.y, b.y);
+  if (xOverlap > nEps) {
+    const side = a.y < b.y ? 'bottom' : 'top';
+    const x0 = Math.max(a.x, b.x);
+    const y = a.y < b.y ? a.y + a.h : b.y + b.h;
+    const edge: [Point, Point] = [{ x: x0, y }, { x: x0 + xOverlap, y }];
+    return { node: b, side, mid: { x: x0 + xOverlap / 2, y }, edge };
+  }
+  if (yOverlap > nEps) {
+    const side = a.x < b.x ? 'right' : 'left';
+    const x = a.x < b.x ? a.x + a.w : b.x + b.w;
+    const y0 = Math.max(a.y, b.y);
+    const edge: [Point, Point] = [{ x, y: y0 }, { x, y: y0 + yOverlap }];
+    return { node: b, side, mid: { x, y: y0 + yOverlap / 2 }, edge };
+  }
+  return null;
+}
+
+/**
+ * Cells bucketed by the coordinate of one of their edges (e.g. every cell
+ * whose top lies on y = 120), each bucket sorted along the edge.
+ * Leaf cells never overlap, so cells on one line form disjoint sorted spans.
+ */
+type EdgeIndex = Map<number, MazeNode[]>;
+
+const lineKey = (v: number) => Math.round(v * 1000);
+
+function buildEdgeIndex(
+  nodes: MazeNode[],
+  lineOf: (n: MazeNode) => number,
+  startOf: (n: MazeNode) => number
+): EdgeIndex {
+  const index: EdgeIndex = new Map();
+  for (const node of nodes) {
+    const k = lineKey(lineOf(node));
+    (index.get(k) ?? (index.set(k, []), index.get(k)!)).push(node);
+  }
+  for (const list of index.values()) list.sort((p, q) => startOf(p) - startOf(q));
+  return index;
+}
+
+/**
+ * Return cells on `line` whose span overlaps [from, to] by more than eps
+ */
+function queryEdgeIndex(
+  index: EdgeIndex,
+  line: number,
+  from: number,
+  to: number,
+  startOf: (n: MazeNode) => number,
+  endOf: (n: MazeNode) => number
+): MazeNode[] {
+  const list = index.get(lineKey(line));
+  if (!list) return [];
+
+  // Binary search for the first span ending past `from`
+  let lo = 0;
+  let hi = list.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (endOf(list[mid]) <= from + ADJACENCY_EPS) lo = mid + 1;
+    else hi = mid;
+  }
+
+  const hits: MazeNode[] = [];
+  for (let i = lo; i < list.length && startOf(list[i]) < to - ADJACENCY_EPS; i++) {
+    hits.push(list[i]);
+  }
+  return hits;
+}
+
+/**
+ * Populate `neighbors` for every node with the side and midpoint of each
+ * shared edge. Uses per-line edge indexes, so cost is O(n log n) rather than
+ * comparing every pair. Neighbors are listed in id order.
+ */
+export function findNeighbors(nodes: MazeNode[]): void {
+  const left = (n: MazeNode) => n.x;
+  const right = (n: MazeNode) => n.x + n.w;
+  const top = (n: MazeNode) => n.y;
+  const bottom = (n: MazeNode) => n.y + n.h;
+
+  const byTop = buildEdgeIndex(nodes, top, left);
+  const byBottom = buildEdgeIndex(nodes, bottom, left);
+  const byLeft = buildEdgeIndex(nodes, left, top);
+  const byRight = buildEdgeIndex(nodes, right, top);
+
+  for (const a of nodes) {
+    const candidates = [
+      ...queryEdgeIndex(byBottom, top(a), left(a), right(a), left, right),
+      ...queryEdgeIndex(byTop, bottom(a), left(a), right(a), left, right),
+      ...queryEdgeIndex(byRight, left(a), top(a), bottom(a), top, bottom),
+      ...queryEdgeIndex(byLeft, right(a), top(a), bottom(a), top, bottom),
+    ];
+    candidates.sort((p, q) => p.id - q.id);
+
+    a.neighbors = [];
+    for (const b of candidates) {
+      if (b.id === a.id) continue;
+      const info = describeAdjacency(a, b);
+      if (info) a.neighbors.push(info);
+    }
+  }
+}
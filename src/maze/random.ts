@@ -0,0 +1,29 @@
+/**
+ * Seeded pseudo-random number generation
+ */
+
+export type RandomFn = () => number;
+
+export const MAX_SEED = 0xffffffff;
+
+/**
+ * Mulberry32 PRNG: fast, 32-bit state, good enough distribution for carving.
+ * Returns floats in [0, 1), identical sequence for identical seeds.
+ */
+export function createRandom(seed: number): RandomFn {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Pick a fresh seed (non-deterministic, for rerolls)
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED);
+}
@@ -0,0 +1,122 @@
+/**
+ * Automatic solution routing along the image's strongest contours
+ */
+
+import { EdgeMap, edgeStrengthIn } from './edges';
+import { tracePath } from './carve';
+import { MazeNode } from './types';
+
+export type SolutionRoute = 'shortest' | 'contour';
+
+export const SOLUTION_ROUTES: { id: SolutionRoute; label: string }[] = [
+  { id: 'shortest', label: 'Default (start to end)' },
+  { id: 'contour', label: 'Trace facial contours' },
+];
+
+// Cost per px through a cell with no edge; a strongest-edge cell costs
+// CONTOUR_FLOOR per px, so a detour along a contour is worth up to ~50x
+// its length in straight travel
+const CONTOUR_FLOOR = 0.02;
+
+/**
+ * Edge strength inside each cell (strongest gradient), normalized to the
+ * image's strongest cell: 0-1
+ */
+export function cellEdgeStrengths(nodes: MazeNode[], edgeMap: EdgeMap): Map<MazeNode, number> {
+  const strength = new Map<MazeNode, number>();
+  let peak = 0;
+  for (const node of nodes) {
+    const s = edgeStrengthIn(edgeMap, node.x, node.y, node.w, node.h, 'max');
+    strength.set(node, s);
+    peak = Math.max(peak, s);
+  }
+  if (peak > 0) for (const [node, s] of strength) strength.set(node, s / peak);
+  return strength;
+}
+
+/**
+ * Dijkstra through the adjacency graph from start to end, where each half
+ * step costs its px length times `costPerPx` of the cell it lies in. Cells
+ * in `blocked` are never entered. Returns a simple path, or null when end
+ * can't be reached.
+ */
+export function cheapestPath(
+  start: MazeNode,
+  end: MazeNode,
+  costPerPx: (node: MazeNode) => number,
+  blocked: Set<MazeNode> = new Set()
+): MazeNode[] | null {
+  const dist = new Map<MazeNode, number>([[start, 0]]);
+  const parent = new Map<MazeNode, MazeNode | null>([[start, null]]);
+  const done = new Set<MazeNode>();
+  const heap: { node: MazeNode; d: number }[] = [{ node: start, d: 0 }];
+
+  const push = (item: { node: MazeNode; d: number }) => {
+    heap.push(item);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const p = (i - 1) >> 1;
+      if (heap[p].d <= heap[i].d) break;
+      [heap[p], heap[i]] = [heap[i], heap[p]];
+      i = p;
+    }
+  };
+  const pop = () => {
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      let i = 0;
+      while (true) {
+        const l = i * 2 + 1;
+        const r = l + 1;
+        let m = i;
+        if (l < heap.length && heap[l].d < heap[m].d) m = l;
+        if (r < heap.length && heap[r].d < heap[m].d) m = r;
+        if (m === i) break;
+        [heap[m], heap[i]] = [heap[i], heap[m]];
+        i = m;
+      }
+    }
+    return top;
+  };
+
+  while (heap.length > 0) {
+    const { node, d } = pop();
+    if (done.has(node)) continue;
+    if (node === end) return tracePath(parent, node);
+    done.add(node);
+
+    for (const { node: nb, mid } of node.neighbors) {
+      if (done.has(nb) || blocked.has(nb)) continue;
+      // Half a step in each cell, weighted by that cell's cost
+      const into = Math.hypot(mid.x - node.center.x, mid.y - node.center.y) * costPerPx(node);
+      const out = Math.hypot(nb.center.x - mid.x, nb.center.y - mid.y) * costPerPx(nb);
+      const nd = d + into + out;
+      if (nd < (dist.get(nb) ?? Infinity)) {
+        dist.set(nb, nd);
+        parent.set(nb, node);
+        push({ node: nb, d: nd });
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Minimum-cost path from start to end through the adjacency graph, where
+ * travel through a cell costs less the stronger the gradient inside it.
+ * The route locks onto long continuous contours (jawline, brow, lip line)
+ * and only crosses flat regions to hop between them. Dijkstra returns a
+ * simple path, so forcing its connections can never close a loop.
+ */
+export function routeAlongContours(
+  nodes: MazeNode[],
+  start: MazeNode,
+  end: MazeNode,
+  edgeMap: EdgeMap
+): MazeNode[] {
+  const strength = cellEdgeStrengths(nodes, edgeMap);
+  const costPerPx = (node: MazeNode) => CONTOUR_FLOOR + (1 - strength.get(node)!) ** 3;
+  return cheapestPath(start, end, costPerPx) ?? [start]; // Unreachable in a connected subdivision
+}
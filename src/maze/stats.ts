@@ -0,0 +1,110 @@
+/**
+ * Maze statistics and a difficulty rating, for matching a maze to its
+ * audience before plotting
+ */
+
+import { polygonArea } from './cells';
+import { solutionPoints } from './geometry';
+import { MazeData, MazeNode } from './types';
+
+export type Difficulty = 'Easy' | 'Medium' | 'Hard' | 'Expert';
+
+export interface MazeStats {
+  cells: number;
+  minCellSize: number;       // px, side of a square of the cell's area
+  maxCellSize: number;
+  solutionCells: number;
+  solutionLength: number;    // px along the drawn (unwarped) solution line
+  deadEnds: number;          // cells with one passage, other than the entrance and exits
+  deadEndDepth: number;      // mean cells from a dead end back to its junction
+  branching: number;         // side passages leaving the solution, per solution cell
+  turns: number;             // direction changes along the solution
+  score: number;             // 0-100
+  difficulty: Difficulty;
+}
+
+// Turns sharper than this count (radians)
+const TURN_ANGLE = Math.PI / 4;
+
+// Score points per doubling of the estimated solving effort
+const SCORE_PER_DOUBLING = 8;
+
+const DIFFICULTY_BANDS: [number, Difficulty][] = [
+  [25, 'Easy'],
+  [50, 'Medium'],
+  [75, 'Hard'],
+  [Infinity, 'Expert'],
+];
+
+/**
+ * Cells walked from a dead end until a junction (three or more passages)
+ * or another end
+ */
+function deadEndDepth(deadEnd: MazeNode, limit: number): number {
+  let prev: MazeNode | null = null;
+  let node = deadEnd;
+  let depth = 0;
+  while (depth < limit) {
+    const next = [...node.connections.keys()].filter((n) => n !== prev);
+    if (next.length !== 1) break;
+    prev = node;
+    node = next[0];
+    depth++;
+    if (node.connections.size !== 2) break;
+  }
+  return depth;
+}
+
+/**
+ * Statistics of a generated maze. The score estimates solving effort as the
+ * solution plus, for each wrong turn on the way, the dead-end branch it leads
+ * into, on a log scale: each doubling of effort adds SCORE_PER_DOUBLING
+ * points, capped at 100.
+ */
+export function mazeStats(maze: MazeData): MazeStats {
+  const { nodes, solution } = maze;
+  const ends = new Set([maze.entrance?.node, ...maze.exits.map((exit) => exit.node)]);
+
+  const sizes = nodes.map((node) => Math.sqrt(polygonArea(node.polygon)));
+  const deadEnds = nodes.filter((node) => node.connections.size === 1 && !ends.has(node));
+  const depthSum = deadEnds.reduce((sum, node) => sum + deadEndDepth(node, nodes.length), 0);
+
+  // Side passages: every passage of a solution cell beyond the ones the
+  // solution itself uses
+  let sides = 0;
+  solution.forEach((node, i) => {
+    const used = (i > 0 ? 1 : 0) + (i < solution.length - 1 ? 1 : 0);
+    sides += Math.max(0, node.connections.size - used);
+  });
+
+  let turns = 0;
+  for (let i = 1; i < solution.length - 1; i++) {
+    const [a, b, c] = [solution[i - 1].center, solution[i].center, solution[i + 1].center];
+    const turn = Math.atan2(c.y - b.y, c.x - b.x) - Math.atan2(b.y - a.y, b.x - a.x);
+    if (Math.abs(Math.atan2(Math.sin(turn), Math.cos(turn))) > TURN_ANGLE) turns++;
+  }
+
+  const points = solutionPoints(maze);
+  let solutionLength = 0;
+  for (let i = 1; i < points.length; i++) {
+    solutionLength += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+  }
+
+  const depth = deadEnds.length > 0 ? depthSum / deadEnds.length : 0;
+  const effort = solution.length + sides * depth;
+  const score = solution.length > 0 ? Math.min(100, Math.round(SCORE_PER_DOUBLING * Math.log2(1 + effort / 10))) : 0;
+
+  return {
+    cells: nodes.length,
+    minCellSize: sizes.reduce((min, size) => Math.min(min, size), sizes[0] ?? 0),
+    maxCellSize: sizes.reduce((max, size) => Math.max(max, size), 0),
+    solutionCells: solution.length,
+    solutionLength,
+    deadEnds: deadEnds.length,
+    deadEndDepth: depth,
+    branching: solution.length > 0 ? sides / solution.length : 0,
+    turns,
+    score,
+    difficulty: DIFFICULTY_BANDS.find(([limit]) => score < limit)![1],
+  };
+}
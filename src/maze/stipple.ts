@@ -0,0 +1,190 @@
+/**
+ * Weighted Voronoi stippling: organic cells whose density follows the image
+ */
+
+import { ToneMap, areaMean } from './image';
+import { EdgeMap, edgeStrengthIn } from './edges';
+import { MASK_EDGE_CELLS, maskCoverage } from './mask';
+import { importanceScale } from './importance';
+import { RefineGuides, SubdivisionParams, detailThreshold, getMinCellSize } from './quadtree';
+import { LabeledPolygon, polygonBounds } from './cells';
+import { voronoiCells } from './voronoi';
+import { createRandom } from './random';
+import { MazeNode, Point } from './types';
+
+const RELAX_ITERATIONS = 4;
+const MAX_SEEDS = 150000;
+
+/**
+ * Cells per pixel. The detail settings give a target cell size for each
+ * block of the image (the same threshold the quadtree refines to, floored
+ * at the minimum cell size), and a cell of size s covers s^2 pixels.
+ * Painted importance scales the size as in the quadtree's refinement;
+ * blocks outside a mask get the coarsest size and blocks on its outline
+ * fine cells.
+ */
+function cellDensity(
+  width: number,
+  height: number,
+  toneMap: ToneMap,
+  edgeMap: EdgeMap,
+  params: SubdivisionParams,
+  { mask, importance }: RefineGuides
+): Float32Array {
+  const maxDim = Math.max(width, height);
+  const resScale = maxDim / 800;
+  const minSize = getMinCellSize(width, height, params.detailLevel);
+  const maxSize = maxDim / 4;
+  const block = Math.max(1, Math.floor(minSize));
+  const density = new Float32Array(width * height);
+
+  for (let y0 = 0; y0 < height; y0 += block) {
+    for (let x0 = 0; x0 < width; x0 += block) {
+      const w = Math.min(block, width - x0);
+      const h = Math.min(block, height - y0);
+      const threshold = detailThreshold(
+        areaMean(toneMap, x0, y0, w, h),
+        edgeStrengthIn(edgeMap, x0, y0, w, h, params.edgeMetric),
+        params,
+        resScale
+      );
+      const scale = importance ? importanceScale(importance, x0, y0, w, h) : 1;
+      let size = Math.max(minSize * scale, Math.min(maxSize, threshold * scale * scale));
+      if (mask) {
+        const coverage = maskCoverage(mask, x0, y0, w, h);
+        if (coverage === 0) size = maxSize;
+        else if (coverage < 1) size = Math.min(size, minSize * MASK_EDGE_CELLS);
+      }
+      const rho = 1 / (size * size);
+      for (let y = y0; y < y0 + h; y++) density.fill(rho, y * width + x0, y * width + x0 + w);
+    }
+  }
+  return density;
+}
+
+/**
+ * Place seeds by sampling the density, then run Lloyd relaxation: move each
+ * seed to the density-weighted centroid of its Voronoi cell. Per-row prefix
+ * sums make each cell's centroid cost one lookup per pixel row it spans.
+ * Returns the relaxed seeds and the cells of the last pass.
+ */
+export function stippleSeeds(
+  width: number,
+  height: number,
+  density: Float32Array,
+  seed: number
+): { seeds: Point[]; cells: LabeledPolygon[] } {
+  const random = createRandom(seed);
+  const stride = width + 1;
+  const mass = new Float64Array(stride * height);
+  const moment = new Float64Array(stride * height);
+  let total = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const rho = density[y * width + x];
+      mass[y * stride + x + 1] = mass[y * stride + x] + rho;
+      moment[y * stride + x + 1] = moment[y * stride + x] + rho * (x + 0.5);
+    }
+    total += mass[y * stride + width];
+  }
+
+  const count = Math.max(2, Math.min(MAX_SEEDS, Math.round(total)));
+
+  // Initial seeds: inverse-CDF samples over rows, then within the row
+  let seeds: Point[] = [];
+  const rowStart = new Float64Array(height + 1);
+  for (let y = 0; y < height; y++) rowStart[y + 1] = rowStart[y] + mass[y * stride + width];
+  const search = (arr: ArrayLike<number>, from: number, to: number, u: number) => {
+    let lo = from;
+    let hi = to;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (arr[mid + 1] <= u) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  };
+  for (let i = 0; i < count; i++) {
+    const u = random() * total;
+    const y = search(rowStart, 0, height - 1, u);
+    const x = search(mass, y * stride, y * stride + width - 1, u - rowStart[y]) - y * stride;
+    seeds.push({ x: x + random(), y: y + random() });
+  }
+
+  let cells: LabeledPolygon[] = [];
+  for (let iter = 0; iter < RELAX_ITERATIONS; iter++) {
+    cells = voronoiCells(seeds, width, height);
+    seeds = cells.map((cell, i) => {
+      const { points } = cell;
+      if (points.length < 3) return seeds[i];
+      const ys = points.map((p) => p.y);
+      const rowFrom = Math.max(0, Math.ceil(Math.min(...ys) - 0.5));
+      const rowTo = Math.min(height - 1, Math.floor(Math.max(...ys) - 0.5));
+
+      let m = 0;
+      let mx = 0;
+      let my = 0;
+      for (let y = rowFrom; y <= rowTo; y++) {
+        // Span of the convex cell on this pixel row's center line
+        const yc = y + 0.5;
+        let left = Infinity;
+        let right = -Infinity;
+        points.forEach((a, k) => {
+          const b = points[(k + 1) % points.length];
+          if ((a.y <= yc && b.y >= yc) || (b.y <= yc && a.y >= yc)) {
+            const x = a.y === b.y ? Math.min(a.x, b.x) : a.x + ((yc - a.y) / (b.y - a.y)) * (b.x - a.x);
+            const x2 = a.y === b.y ? Math.max(a.x, b.x) : x;
+            left = Math.min(left, x);
+            right = Math.max(right, x2);
+          }
+        });
+        const c0 = Math.max(0, Math.ceil(left - 0.5));
+        const c1 = Math.min(width - 1, Math.floor(right - 0.5));
+        if (c1 < c0) continue;
+        const rowMass = mass[y * stride + c1 + 1] - mass[y * stride + c0];
+        m += rowMass;
+        mx += moment[y * stride + c1 + 1] - moment[y * stride + c0];
+        my += rowMass * yc;
+      }
+      return m > 0 ? { x: mx / m, y: my / m } : seeds[i];
+    });
+  }
+
+  return { seeds, cells };
+}
+
+/**
+ * Voronoi cells around stippled seeds. Outlines come from the last
+ * relaxation pass; linkVoronoiCells replaces them with the exact cells.
+ */
+export function subdivideVoronoi(
+  width: number,
+  height: number,
+  toneMap: ToneMap,
+  edgeMap: EdgeMap,
+  params: SubdivisionParams & { seed: number },
+  guides: RefineGuides = {}
+): MazeNode[] {
+  const density = cellDensity(width, height, toneMap, edgeMap, params, guides);
+  const { seeds, cells } = stippleSeeds(width, height, density, params.seed);
+
+  const nodes = seeds.map((center, i): MazeNode => {
+    const polygon = cells[i].points;
+    const bounds = polygonBounds(polygon);
+    return {
+      id: 0,
+      ...bounds,
+      polygon,
+      center,
+      rawBrightness: areaMean(toneMap, bounds.x, bounds.y, bounds.w, bounds.h),
+      visited: false,
+      neighbors: [],
+      connections: new Map(),
+    };
+  });
+
+  // Reading order, like the other tessellations
+  nodes.sort((a, b) => a.center.y - b.center.y || a.center.x - b.center.x);
+  nodes.forEach((node, i) => (node.id = i));
+  return nodes;
+}
@@ -0,0 +1,73 @@
+/**
+ * Difficulty targeting: re-carve the same cells with other seeds (and
+ * optionally other algorithms) and keep the candidate closest to a goal
+ */
+
+import { CARVE_ALGORITHMS, CarveAlgorithm } from './algorithms';
+import { createRandom, MAX_SEED } from './random';
+
+export interface TargetParams {
+  targetDifficulty: number;       // difficulty score to aim for (1-100); 0 = off
+  targetBudget: number;           // ms to spend re-carving
+  targetVaryAlgorithm: boolean;   // also try the other carving algorithms
+}
+
+/**
+ * The candidate a search settled on
+ */
+export interface TargetResult {
+  seed: number;
+  algorithm: CarveAlgorithm;
+  score: number;
+  attempts: number;
+}
+
+export interface TargetProgress {
+  attempt: number;
+  fraction: number;   // 0-1 of the time budget used
+  bestScore: number;
+}
+
+// Stop early after this many candidates even with budget left
+const MAX_ATTEMPTS = 200;
+
+/**
+ * Try candidates until the budget runs out, one hits the target score
+ * exactly, or MAX_ATTEMPTS is reached. The first candidate is always the
+ * requested seed and algorithm; later seeds come from a generator seeded
+ * by it, so the sequence is reproducible (how far it gets depends on the
+ * machine's speed). `score` carves a candidate and returns its difficulty.
+ */
+export function searchDifficulty(
+  seed: number,
+  algorithm: CarveAlgorithm,
+  params: TargetParams,
+  score: (seed: number, algorithm: CarveAlgorithm) => number,
+  onProgress?: (progress: TargetProgress) => void
+): TargetResult {
+  const started = Date.now();
+  const nextSeed = createRandom(seed ^ 0x9e3779b9);
+  let best: TargetResult | null = null;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const candidate =
+      attempt === 1
+        ? { seed, algorithm }
+        : {
+            seed: Math.floor(nextSeed() * MAX_SEED),
+            algorithm: params.targetVaryAlgorithm
+              ? CARVE_ALGORITHMS[(attempt - 1) % CARVE_ALGORITHMS.length].id
+              : algorithm,
+          };
+    const s = score(candidate.seed, candidate.algorithm);
+    if (!best || Math.abs(s - params.targetDifficulty) < Math.abs(best.score - params.targetDifficulty)) {
+      best = { ...candidate, score: s, attempts: attempt };
+    }
+    best.attempts = attempt;
+
+    const fraction = Math.min(1, (Date.now() - started) / Math.max(1, params.targetBudget));
+    onProgress?.({ attempt, fraction, bestScore: best.score });
+    if (fraction >= 1 || best.score === params.targetDifficulty) break;
+  }
+  return best!;
+}
@@ -0,0 +1,86 @@
+/**
+ * Cell shapes: every tessellation builds polygon cells refined by the same
+ * tone/edge test, then links cells that share an edge
+ */
+
+import { ToneMap } from './image';
+import { EdgeMap } from './edges';
+import { RefineGuides, SubdivisionParams, subdivide, findNeighbors, latticeDetail } from './quadtree';
+import { subdivideHex, linkHexCells } from './hexgrid';
+import { subdivideTriangles, linkTriangleCells } from './trigrid';
+import { subdivideVoronoi } from './stipple';
+import { linkVoronoiCells } from './voronoi';
+import { subdividePolar, linkPolarCells } from './polar';
+import { MazeNode } from './types';
+
+export type Tessellation = 'quad' | 'hex' | 'triangle' | 'voronoi' | 'polar';
+
+export const TESSELLATIONS: { id: Tessellation; label: string }[] = [
+  { id: 'quad', label: 'Quadtree squares' },
+  { id: 'hex', label: 'Adaptive hexagons' },
+  { id: 'triangle', label: 'Adaptive triangles' },
+  { id: 'voronoi', label: 'Stippled Voronoi' },
+  { id: 'polar', label: 'Concentric rings (round)' },
+];
+
+type CellParams = SubdivisionParams & { tessellation: Tessellation; seed: number };
+
+/**
+ * Build the leaf cells for the chosen tessellation. Voronoi seeds are
+ * placed randomly, so that mode also depends on the seed. Guides (a shape
+ * mask, painted importance) steer refinement locally.
+ */
+export function buildCells(
+  width: number,
+  height: number,
+  toneMap: ToneMap,
+  edgeMap: EdgeMap,
+  params: CellParams,
+  guides: RefineGuides = {}
+): MazeNode[] {
+  switch (params.tessellation) {
+    case 'hex':
+      return subdivideHex(width, height, toneMap, edgeMap, params, guides);
+    case 'triangle':
+      return subdivideTriangles(width, height, toneMap, edgeMap, params, guides);
+    case 'voronoi':
+      return subdivideVoronoi(width, height, toneMap, edgeMap, params, guides);
+    case 'polar':
+      return subdividePolar(width, height, toneMap, edgeMap, params, guides);
+    case 'quad':
+    default:
+      return subdivide(width, height, toneMap, edgeMap, params, guides);
+  }
+}
+
+/**
+ * Populate `neighbors` (side, midpoint and segment of each shared edge).
+ * Lattice tessellations need the guides the cells were built with.
+ */
+export function linkCells(
+  nodes: MazeNode[],
+  width: number,
+  height: number,
+  toneMap: ToneMap,
+  params: CellParams,
+  guides: RefineGuides = {}
+): void {
+  const { detailLevel } = latticeDetail(params.detailLevel, guides);
+  switch (params.tessellation) {
+    case 'hex':
+      linkHexCells(nodes, width, height, toneMap, detailLevel);
+      break;
+    case 'triangle':
+      linkTriangleCells(nodes, width, height, detailLevel);
+      break;
+    case 'voronoi':
+      linkVoronoiCells(nodes, width, height, toneMap);
+      break;
+    case 'polar':
+      linkPolarCells(nodes, width, height, detailLevel);
+      break;
+    case 'quad':
+    default:
+      findNeighbors(nodes);
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Shared fixtures for the engine's tests: a small synthetic portrait and
+ * params with every feature off
+ */
+
+import { generateMaze } from './generate';
+import { ImageDataLike, MazeData, MazeParams } from './types';
+
+export const TEST_WIDTH = 240;
+export const TEST_HEIGHT = 180;
+
+/**
+ * Dark oval "face" with a shaded band on a white background, so threshold
+ * masks have a subject to keep and tone and edge driven steps have
+ * something to follow
+ */
+export function testImage(): ImageDataLike {
+  const data = new Uint8ClampedArray(TEST_WIDTH * TEST_HEIGHT * 4);
+  for (let y = 0; y < TEST_HEIGHT; y++) {
+    for (let x = 0; x < TEST_WIDTH; x++) {
+      const inside = ((x - TEST_WIDTH / 2) / (TEST_WIDTH * 0.3)) ** 2 + ((y - TEST_HEIGHT / 2) / (TEST_HEIGHT * 0.4)) ** 2 < 1;
+      const v = inside ? 40 + 120 * (0.5 + 0.5 * Math.sin(x / 9 + y / 13)) : 255;
+      data.set([v, v, v, 255], (y * TEST_WIDTH + x) * 4);
+    }
+  }
+  return { width: TEST_WIDTH, height: TEST_HEIGHT, data };
+}
+
+export const TEST_PARAMS: MazeParams = {
+  width: TEST_WIDTH,
+  height: TEST_HEIGHT,
+  brightness: 0,
+  contrast: 1.5,
+  gamma: 1,
+  posterize: 0,
+  invert: false,
+  densityBias: 0.2,
+  detailLevel: 3,
+  edgeFocus: 2.7,
+  edgeMetric: 'max',
+  tessellation: 'quad',
+  seed: 1,
+  algorithm: 'backtracker',
+  growingTreePick: 'mixed',
+  growingTreeMix: 0.75,
+  toneInfluence: 0.8,
+  edgeInfluence: 0.5,
+  weave: 0,
+  braid: 0,
+  braidBias: 0,
+  targetDifficulty: 0,
+  targetBudget: 0,
+  targetVaryAlgorithm: false,
+  solutionRoute: 'shortest',
+  endpointLayout: 'top-bottom',
+  maskMode: 'none',
+  maskThreshold: 230,
+};
+
+const image = testImage();
+
+/**
+ * Maze from the test image with some params changed
+ */
+export const generateTestMaze = (params: Partial<MazeParams> = {}): MazeData =>
+  generateMaze(image, { ...TEST_PARAMS, ...params });
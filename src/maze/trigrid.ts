@@ -0,0 +1,210 @@
+/**
+ * Adaptive triangular cells: rows of alternating triangles, each split into
+ * four half-size triangles wherever the shared tone/edge test asks for detail
+ */
+
+import { ToneMap, areaMean } from './image';
+import { EdgeMap } from './edges';
+import { RefineGuides, SubdivisionParams, createRefineTest, getMinCellSize, latticeDetail } from './quadtree';
+import { EDGE_EPS, clipToRect, polygonArea, polygonBounds, sideLabel } from './cells';
+import { MazeNode, Point } from './types';
+
+/**
+ * Lattice units (half the finest side across, the finest row height down),
+ * stretched slightly so the frame falls on whole units, plus the number of
+ * refinement levels. The finest triangle has the area of a minimum square.
+ */
+function triangleLattice(
+  width: number,
+  height: number,
+  detailLevel: number
+): { ux: number; uy: number; levels: number } {
+  const side = getMinCellSize(width, height, detailLevel) * Math.sqrt(4 / Math.sqrt(3));
+  const ux = width / Math.max(1, Math.round(width / (side / 2)));
+  const uy = height / Math.max(1, Math.round(height / ((side * Math.sqrt(3)) / 2)));
+  let levels = 0;
+  while (side * Math.pow(2, levels + 1) <= Math.max(width, height) / 2) levels++;
+  return { ux, uy, levels };
+}
+
+/**
+ * Triangle in lattice units: `up` has its apex at (ax, ay) and base m rows
+ * below; a down triangle has its top edge on row ay and apex at (ax, ay + m).
+ * Either spans 2m units across.
+ */
+interface Triangle {
+  ax: number;
+  ay: number;
+  m: number;
+  up: boolean;
+}
+
+function corners({ ax, ay, m, up }: Triangle): [number, number][] {
+  return up
+    ? [[ax, ay], [ax + m, ay + m], [ax - m, ay + m]]
+    : [[ax - m, ay], [ax + m, ay], [ax, ay + m]];
+}
+
+/**
+ * The four half-size children of a triangle
+ */
+function splitTriangle({ ax, ay, m, up }: Triangle): Triangle[] {
+  const h = m / 2;
+  return up
+    ? [
+        { ax, ay, m: h, up: true },
+        { ax: ax - h, ay: ay + h, m: h, up: true },
+        { ax: ax + h, ay: ay + h, m: h, up: true },
+        { ax, ay: ay + h, m: h, up: false },
+      ]
+    : [
+        { ax: ax - h, ay, m: h, up: false },
+        { ax: ax + h, ay, m: h, up: false },
+        { ax, ay, m: h, up: true },
+        { ax, ay: ay + h, m: h, up: false },
+      ];
+}
+
+/**
+ * Tile the maze with rows of alternating up/down triangles and refine them
+ * recursively. Triangles are clipped to the frame; the lattice is aligned
+ * so clipped cells are never thinner than one unit.
+ */
+export function subdivideTriangles(
+  width: number,
+  height: number,
+  toneMap: ToneMap,
+  edgeMap: EdgeMap,
+  params: SubdivisionParams,
+  guides: RefineGuides = {}
+): MazeNode[] {
+  const { detailLevel, extraLevel } = latticeDetail(params.detailLevel, guides);
+  const { ux, uy, levels } = triangleLattice(width, height, detailLevel);
+  const needsSplit = createRefineTest(width, height, toneMap, edgeMap, params, guides);
+  const top = Math.pow(2, levels);
+  const nodes: MazeNode[] = [];
+
+  const outline = (t: Triangle) => {
+    const points = corners(t).map(([x, y]) => ({ x: x * ux, y: y * uy }));
+    return clipToRect({ points, labels: [-1, -1, -1] }, width, height).points;
+  };
+
+  const visit = (t: Triangle) => {
+    const polygon = outline(t);
+    if (polygon.length < 3 || polygonArea(polygon) < EDGE_EPS) return;
+    const bounds = polygonBounds(polygon);
+    const finest = extraLevel(bounds.x, bounds.y, bounds.w, bounds.h) ? 1 : 2;
+    if (t.m > finest && needsSplit(bounds.x, bounds.y, bounds.w, bounds.h, Math.min(2 * t.m * ux, t.m * uy))) {
+      splitTriangle(t).forEach(visit);
+      return;
+    }
+    const [a, b, c] = corners(t);
+    nodes.push({
+      id: nodes.length,
+      ...bounds,
+      polygon,
+      // Centroid of the full triangle, pulled inside if clipping cut it off
+      center: clampInto(polygon, { x: ((a[0] + b[0] + c[0]) / 3) * ux, y: ((a[1] + b[1] + c[1]) / 3) * uy }),
+      rawBrightness: areaMean(toneMap, bounds.x, bounds.y, bounds.w, bounds.h),
+      visited: false,
+      neighbors: [],
+      connections: new Map(),
+    });
+  };
+
+  const cols = width / ux;
+  const rows = height / uy;
+  for (let row = 0; row * top < rows; row++) {
+    const ay = row * top;
+    const offset = row % 2 === 0 ? 0 : top;
+    for (let ax = offset - 2 * top; ax - top < cols; ax += 2 * top) {
+      visit({ ax, ay, m: top, up: true });
+      visit({ ax: ax + top, ay, m: top, up: false });
+    }
+  }
+  return nodes;
+}
+
+/**
+ * The point itself if inside the polygon, else the polygon's vertex mean
+ */
+function clampInto(polygon: Point[], p: Point): Point {
+  const inside = polygon.every((a, i) => {
+    const b = polygon[(i + 1) % polygon.length];
+    return (b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x) >= 0;
+  });
+  if (inside) return p;
+  return {
+    x: polygon.reduce((s, q) => s + q.x, 0) / polygon.length,
+    y: polygon.reduce((s, q) => s + q.y, 0) / polygon.length,
+  };
+}
+
+/**
+ * Link triangles sharing an edge. Every interior edge lies on a lattice
+ * line (a row, or a diagonal x + y or x - y = const in lattice units), so
+ * edges are bucketed by exact integer line keys and overlapping spans on
+ * the same line are neighbors. Frame edges lie on no lattice line.
+ */
+export function linkTriangleCells(nodes: MazeNode[], width: number, height: number, detailLevel: number): void {
+  const { ux, uy } = triangleLattice(width, height, detailLevel);
+  const lines = new Map<string, { node: MazeNode; t0: number; t1: number }[]>();
+
+  for (const node of nodes) {
+    node.neighbors = [];
+    node.polygon.forEach((a, i) => {
+      const b = node.polygon[(i + 1) % node.polygon.length];
+      const ax = a.x / ux, ay = a.y / uy, bx = b.x / ux, by = b.y / uy;
+      let key: string;
+      let t0: number;
+      let t1: number;
+      if (Math.abs(by - ay) < 1e-6) {
+        if (ay < 1e-6 || Math.abs(a.y - height) < 1e-6) return;
+        key = `h${Math.round(ay)}`;
+        [t0, t1] = [Math.min(ax, bx), Math.max(ax, bx)];
+      } else if (Math.abs(bx - ax + (by - ay)) < 1e-6) {
+        key = `p${Math.round(ax + ay)}`;
+        [t0, t1] = [Math.min(ay, by), Math.max(ay, by)];
+      } else if (Math.abs(bx - ax - (by - ay)) < 1e-6) {
+        key = `m${Math.round(ax - ay)}`;
+        [t0, t1] = [Math.min(ay, by), Math.max(ay, by)];
+      } else {
+        return; // vertical frame edge
+      }
+      (lines.get(key) ?? (lines.set(key, []), lines.get(key)!)).push({ node, t0, t1 });
+    });
+  }
+
+  for (const [key, spans] of lines) {
+    spans.sort((p, q) => p.t0 - q.t0);
+    const kind = key[0];
+    const c = Number(key.slice(1));
+    // Lattice-unit point at parameter t along the line, in px
+    const at = (t: number): Point =>
+      kind === 'h' ? { x: t * ux, y: c * uy } : kind === 'p' ? { x: (c - t) * ux, y: t * uy } : { x: (c + t) * ux, y: t * uy };
+
+    for (let i = 0; i < spans.length; i++) {
+      for (let j = i + 1; j < spans.length && spans[j].t0 < spans[i].t1; j++) {
+        const a = spans[i];
+        const b = spans[j];
+        if (a.node === b.node) continue;
+        const p = at(Math.max(a.t0, b.t0));
+        const q = at(Math.min(a.t1, b.t1));
+        if (Math.hypot(q.x - p.x, q.y - p.y) <= EDGE_EPS) continue;
+        const mid = { x: (p.x + q.x) / 2, y: (p.y + q.y) / 2 };
+        a.node.neighbors.push({ node: b.node, side: outwardSide(a.node, p, q), mid, edge: [p, q] });
+        b.node.neighbors.push({ node: a.node, side: outwardSide(b.node, p, q), mid, edge: [p, q] });
+      }
+    }
+  }
+
+  for (const node of nodes) node.neighbors.sort((p, q) => p.node.id - q.node.id);
+}
+
+/**
+ * Side label of segment p-q as seen from `node`, oriented away from its center
+ */
+function outwardSide(node: MazeNode, p: Point, q: Point): string {
+  const cross = (q.x - p.x) * (node.center.y - p.y) - (q.y - p.y) * (node.center.x - p.x);
+  return cross > 0 ? sideLabel(p, q) : sideLabel(q, p);
+}
@@ -0,0 +1,141 @@
+/**
+ * Shared maze data structures
+ */
+
+import type { CarveAlgorithm, CarveOptions } from './algorithms';
+import type { BraidParams } from './braid';
+import type { TargetParams, TargetResult } from './target';
+import type { WeaveParams } from './weave';
+import type { EdgeMetric, MazeFields } from './edges';
+import type { MaskParams } from './mask';
+import type { ImportanceStroke } from './importance';
+import type { EndpointParams } from './endpoints';
+import type { SolutionRoute } from './routing';
+import type { Tessellation } from './tessellation';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Circular arc around (cx, cy) from angle a0 to a1 > a0, in radians as the
+ * canvas measures them (from +x, clockwise on screen)
+ */
+export interface Arc {
+  cx: number;
+  cy: number;
+  r: number;
+  a0: number;
+  a1: number;
+}
+
+/**
+ * Stretch of a cell outline between two points: straight, or along `arc`
+ * when set (edge then holds the arc's end points)
+ */
+export interface CellSide {
+  edge: [Point, Point];
+  arc?: Arc;
+}
+
+export interface MazeNeighbor extends CellSide {  // edge: shared wall
+  node: MazeNode;
+  side: string;           // 'top'/'right'/... for rectangles, outward direction otherwise
+  mid: Point;
+}
+
+export interface MazeNode {
+  id: number;
+  x: number;              // bounding box
+  y: number;
+  w: number;
+  h: number;
+  polygon: Point[];       // outline, clockwise on screen
+  arcs?: (Arc | null)[];  // curved outlines: arcs[i] is the curve from polygon[i] to polygon[i + 1]
+  center: Point;          // where the solution line passes through the cell
+  rawBrightness: number;
+  visited: boolean;
+  neighbors: MazeNeighbor[];
+  connections: Map<MazeNode, Point>;
+  under?: [MazeNode, MazeNode];  // weave crossing: the cells a tunnel beneath this one links
+}
+
+/**
+ * Where the maze is entered or left: a cell and the outer side it opens
+ * through, or no side for an interior goal
+ */
+export interface MazePortal {
+  node: MazeNode;
+  side: CellSide | null;
+}
+
+export interface MazeData {
+  nodes: MazeNode[];
+  solution: MazeNode[];
+  startNode: MazeNode | null;
+  endNode: MazeNode | null;   // the exit the solution reaches
+  entrance: MazePortal | null;
+  exits: MazePortal[];
+  warnings: string[];         // problems worth telling the user, e.g. unreachable waypoints
+  braids: number;             // walls braiding opened; 0 for a perfect maze
+  target: TargetResult | null;  // the candidate a difficulty target settled on
+  width: number;
+  height: number;
+  seed: number;               // seed and algorithm the maze was carved with (a difficulty
+  algorithm: CarveAlgorithm;  // target may pick others than the ones requested)
+  fields: MazeFields | null;  // tone and gradient maps the maze was built from
+}
+
+/**
+ * Minimal RGBA pixel buffer, structurally compatible with the DOM ImageData
+ */
+export interface ImageDataLike {
+  width: number;
+  height: number;
+  data: ArrayLike<number>;
+}
+
+/**
+ * Tone adjustments applied to the source image before sampling
+ */
+export interface ToneParams {
+  brightness: number;   // -100 to 100
+  contrast: number;     // 0.5 to 3
+  gamma: number;        // 0.2 to 3
+  posterize: number;    // 0 = off, 2-16 levels
+  invert: boolean;
+}
+
+export interface MazeParams extends ToneParams, CarveOptions, WeaveParams, BraidParams, TargetParams, MaskParams, EndpointParams {
+  width: number;        // maze width in px
+  height: number;       // maze height in px
+  densityBias: number;
+  detailLevel: number;  // 1-8, maps to subdivision depth
+  edgeFocus: number;
+  edgeMetric: EdgeMetric;  // 'max' or 'mean' gradient inside a cell
+  tessellation: Tessellation;  // cell shape: squares, hexagons, triangles, Voronoi or polar rings
+  seed: number;         // drives every random choice; same seed = same maze
+  waypoints?: Point[];  // forced solution path, in maze coordinates
+  importanceStrokes?: ImportanceStroke[];  // painted more/less detail, in maze coordinates
+  solutionRoute: SolutionRoute;  // automatic forced path when no waypoints are set
+}
+
+export function createEmptyMaze(): MazeData {
+  return {
+    nodes: [],
+    solution: [],
+    startNode: null,
+    endNode: null,
+    entrance: null,
+    exits: [],
+    warnings: [],
+    braids: 0,
+    target: null,
+    width: 0,
+    height: 0,
+    seed: 0,
+    algorithm: 'backtracker',
+    fields: null,
+  };
+}
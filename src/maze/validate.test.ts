@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { validateMaze } from './validate';
+import { connect } from './carve';
+import { CARVE_ALGORITHMS } from './algorithms';
+import { TESSELLATIONS } from './tessellation';
+import { generateTestMaze } from './testing';
+import { MazeData, MazeNode, MazeParams } from './types';
+
+// Feature combinations every tessellation and algorithm is run with
+const SCENARIOS: { name: string; params: Partial<MazeParams> }[] = [
+  { name: 'plain', params: {} },
+  { name: 'weave and braid', params: { weave: 0.6, braid: 0.5, endpointLayout: 'left-right' } },
+  { name: 'threshold mask', params: { maskMode: 'threshold', braid: 0.3, braidBias: 1, endpointLayout: 'corners' } },
+  {
+    name: 'painted mask',
+    params: {
+      maskMode: 'paint',
+      maskStrokes: [{ points: [{ x: 40, y: 90 }, { x: 200, y: 90 }], radius: 60, erase: false }],
+      endpointLayout: 'center',
+    },
+  },
+  {
+    name: 'waypoints',
+    params: { waypoints: [{ x: 20, y: 20 }, { x: 120, y: 90 }, { x: 60, y: 160 }, { x: 220, y: 150 }], weave: 0.4, braid: 0.3 },
+  },
+  {
+    name: 'custom endpoints',
+    params: { endpointLayout: 'custom', startPoint: { x: 0, y: 90 }, exitPoints: [{ x: 120, y: 90 }, { x: 240, y: 10 }], braid: 0.2 },
+  },
+  { name: 'contour route', params: { solutionRoute: 'contour', weave: 0.3 } },
+];
+
+const SEEDS = [1, 2, 3];
+
+describe('validateMaze on generated mazes', () => {
+  for (const { id: tessellation } of TESSELLATIONS) {
+    for (const { id: algorithm } of CARVE_ALGORITHMS) {
+      it(`${tessellation} / ${algorithm} has no problems`, () => {
+        for (const { name, params } of SCENARIOS) {
+          for (const seed of SEEDS) {
+            const maze = generateTestMaze({ ...params, tessellation, algorithm, seed });
+            expect(maze.nodes.length, `${name}, seed ${seed}`).toBeGreaterThan(1);
+            expect(validateMaze(maze), `${name}, seed ${seed}`).toEqual([]);
+          }
+        }
+      }, 30_000); // Voronoi stippling takes seconds per case on a slow machine
+    }
+  }
+});
+
+describe('validateMaze on broken mazes', () => {
+  // A sound braid-free maze to break on purpose
+  const broken = (): { maze: MazeData; onSolution: Set<MazeNode> } => {
+    const maze = generateTestMaze({ detailLevel: 4 });
+    expect(validateMaze(maze)).toEqual([]);
+    return { maze, onSolution: new Set(maze.solution) };
+  };
+
+  it('reports a one-way connection', () => {
+    const { maze } = broken();
+    const [a, b] = maze.solution;
+    b.connections.delete(a);
+    expect(validateMaze(maze)).toContain(`One-way connections at cells #${a.id}.`);
+  });
+
+  it('reports cells cut off by a closed passage', () => {
+    const { maze, onSolution } = broken();
+    const leaf = maze.nodes.find((n) => !onSolution.has(n) && n.connections.size === 1)!;
+    const [parent] = leaf.connections.keys();
+    leaf.connections.delete(parent);
+    parent.connections.delete(leaf);
+    expect(validateMaze(maze)).toEqual([`1 cell is unreachable (#${leaf.id}).`]);
+  });
+
+  it('reports a loop braiding did not add', () => {
+    const { maze } = broken();
+    const node = maze.nodes.find((n) => n.neighbors.some((nb) => !n.connections.has(nb.node)))!;
+    const closed = node.neighbors.find((nb) => !node.connections.has(nb.node))!;
+    connect(node, closed.node);
+    expect(validateMaze(maze)).toEqual(['Expected 0 loops from braiding, found 1.']);
+  });
+
+  it('reports a solution that revisits a cell', () => {
+    const { maze } = broken();
+    const [first, second, ...rest] = maze.solution;
+    maze.solution = [first, second, first, second, ...rest];
+    expect(validateMaze(maze)).toEqual(['The solution visits a cell twice.']);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Integrity checks for a generated maze, run before it is shown, exported
+ * or plotted
+ */
+
+import { MazeData, MazeNode } from './types';
+
+// Report at most this many cells per kind of problem
+const MAX_EXAMPLES = 3;
+
+const cellList = (nodes: MazeNode[]) =>
+  nodes.slice(0, MAX_EXAMPLES).map((n) => `#${n.id}`).join(', ') + (nodes.length > MAX_EXAMPLES ? ', ...' : '');
+
+/**
+ * Problems with a maze, or an empty list when it is sound:
+ * - every connection is mutual and joins neighbors (or the two ends of a
+ *   weave tunnel)
+ * - every cell is reachable from the start
+ * - passages form a tree, plus exactly the loops braiding added (so a
+ *   forced path closed no cycle)
+ * - the solution runs from the start to the end through open passages
+ *   without revisiting a cell, entering at the entrance and leaving at
+ *   one of the exits
+ */
+export function validateMaze(maze: MazeData): string[] {
+  const { nodes, solution, startNode, endNode } = maze;
+  if (nodes.length === 0) return [];
+  const problems: string[] = [];
+  const inMaze = new Set(nodes);
+
+  const tunnels = new Set<string>();
+  for (const node of nodes) {
+    if (!node.under) continue;
+    const [a, b] = node.under;
+    tunnels.add(`${a.id}-${b.id}`).add(`${b.id}-${a.id}`);
+    if (!a.connections.has(b)) problems.push(`Weave tunnel under cell #${node.id} is not open.`);
+  }
+
+  const oneWay: MazeNode[] = [];
+  const stray: MazeNode[] = [];
+  let passages = 0;
+  for (const node of nodes) {
+    for (const [other] of node.connections) {
+      passages++;
+      if (!other.connections.has(node)) oneWay.push(node);
+      const adjacent = node.neighbors.some((nb) => nb.node === other) || tunnels.has(`${node.id}-${other.id}`);
+      if (!inMaze.has(other) || !adjacent) stray.push(node);
+    }
+  }
+  passages /= 2;
+  if (oneWay.length > 0) problems.push(`One-way connections at cells ${cellList(oneWay)}.`);
+  if (stray.length > 0) problems.push(`Connections to non-adjacent cells at ${cellList(stray)}.`);
+
+  if (!startNode || !endNode) {
+    problems.push('The maze has no start or end.');
+    return problems;
+  }
+
+  const reached = new Set<MazeNode>([startNode]);
+  const queue = [startNode];
+  for (let head = 0; head < queue.length; head++) {
+    for (const [next] of queue[head].connections) {
+      if (reached.has(next)) continue;
+      reached.add(next);
+      queue.push(next);
+    }
+  }
+  const unreachable = nodes.filter((n) => !reached.has(n));
+  if (unreachable.length > 0) {
+    problems.push(`${unreachable.length} cell${unreachable.length === 1 ? ' is' : 's are'} unreachable (${cellList(unreachable)}).`);
+  }
+
+  // A connected graph with n cells is a tree at n - 1 passages
+  const loops = passages - (nodes.length - 1);
+  if (unreachable.length === 0 && loops !== maze.braids) {
+    problems.push(`Expected ${maze.braids} loop${maze.braids === 1 ? '' : 's'} from braiding, found ${loops}.`);
+  }
+
+  if (solution.length === 0) {
+    problems.push('No solution was found.');
+  } else {
+    if (solution[0] !== startNode || solution[solution.length - 1] !== endNode) {
+      problems.push("The solution doesn't run from the start to the end.");
+    }
+    const gap = solution.findIndex((node, i) => i > 0 && !node.connections.has(solution[i - 1]));
+    if (gap > 0) problems.push(`The solution passes through a wall between cells #${solution[gap - 1].id} and #${solution[gap].id}.`);
+    if (new Set(solution).size !== solution.length) problems.push('The solution visits a cell twice.');
+  }
+  if (maze.entrance?.node !== startNode) problems.push('The start is not the entrance cell.');
+  if (!maze.exits.some((exit) => exit.node === endNode)) problems.push('The end is not one of the exits.');
+
+  return problems;
+}
@@ -0,0 +1,120 @@
+/**
+ * Voronoi cells of seed points, clipped to the maze rectangle
+ */
+
+import { ToneMap, areaMean } from './image';
+import { EDGE_EPS, LabeledPolygon, clipHalfPlane, polygonBounds, rectPolygon, sideLabel } from './cells';
+import { MazeNode, Point } from './types';
+
+/**
+ * Voronoi cell of every seed, built by clipping the maze rectangle with the
+ * bisector against each nearby seed. Seeds are scanned in rings of buckets
+ * until no farther seed could cut the cell (a seed more than twice the
+ * cell's radius away cannot). Each edge is labeled with the index of the
+ * seed across it, or -1 on the frame.
+ */
+export function voronoiCells(
+  seeds: Point[],
+  width: number,
+  height: number,
+  bucketSize = Math.sqrt((width * height) / Math.max(1, seeds.length)) * 2
+): LabeledPolygon[] {
+  const cols = Math.max(1, Math.ceil(width / bucketSize));
+  const rows = Math.max(1, Math.ceil(height / bucketSize));
+  const bucketOf = (p: Point) => ({
+    bx: Math.max(0, Math.min(cols - 1, Math.floor(p.x / bucketSize))),
+    by: Math.max(0, Math.min(rows - 1, Math.floor(p.y / bucketSize))),
+  });
+
+  // Bucketed seed indices in compressed rows
+  const start = new Int32Array(cols * rows + 1);
+  for (const p of seeds) {
+    const { bx, by } = bucketOf(p);
+    start[by * cols + bx + 1]++;
+  }
+  for (let i = 0; i < cols * rows; i++) start[i + 1] += start[i];
+  const fill = start.slice(0, cols * rows);
+  const members = new Int32Array(seeds.length);
+  seeds.forEach((p, i) => {
+    const { bx, by } = bucketOf(p);
+    members[fill[by * cols + bx]++] = i;
+  });
+
+  const frame: LabeledPolygon = { points: rectPolygon(0, 0, width, height), labels: [-1, -1, -1, -1] };
+
+  return seeds.map((s, i) => {
+    let poly = frame;
+    let radius = Math.hypot(Math.max(s.x, width - s.x), Math.max(s.y, height - s.y));
+    const { bx, by } = bucketOf(s);
+
+    for (let ring = 0; ; ring++) {
+      if (ring >= 2 && (ring - 1) * bucketSize > 2 * radius) break;
+      if (bx - ring < 0 && by - ring < 0 && bx + ring >= cols && by + ring >= rows) break;
+
+      for (let y = by - ring; y <= by + ring; y++) {
+        if (y < 0 || y >= rows) continue;
+        const onEdgeRow = y === by - ring || y === by + ring;
+        for (let x = bx - ring; x <= bx + ring; x += onEdgeRow ? 1 : ring * 2) {
+          if (x >= 0 && x < cols) {
+            for (let m = start[y * cols + x]; m < start[y * cols + x + 1]; m++) {
+              const j = members[m];
+              if (j === i) continue;
+              const t = seeds[j];
+              const dx = t.x - s.x;
+              const dy = t.y - s.y;
+              if (dx * dx + dy * dy >= 4 * radius * radius) continue;
+              // Keep the side closer to s: (t - s) . p <= (|t|^2 - |s|^2) / 2
+              poly = clipHalfPlane(poly, dx, dy, (t.x * t.x + t.y * t.y - s.x * s.x - s.y * s.y) / 2, j);
+              radius = 0;
+              for (const p of poly.points) radius = Math.max(radius, Math.sqrt((p.x - s.x) ** 2 + (p.y - s.y) ** 2));
+            }
+          }
+          if (ring === 0) break;
+        }
+      }
+    }
+    return poly;
+  });
+}
+
+/**
+ * Replace each node's outline with its Voronoi cell around `center` and link
+ * nodes whose cells share an edge on both sides. Bounding boxes and mean
+ * brightness are refreshed from the new outlines.
+ */
+export function linkVoronoiCells(
+  nodes: MazeNode[],
+  width: number,
+  height: number,
+  toneMap: ToneMap,
+  bucketSize?: number
+): void {
+  const cells = voronoiCells(nodes.map((n) => n.center), width, height, bucketSize);
+
+  const sharedEdges = cells.map((cell) => {
+    const edges = new Map<number, [Point, Point]>();
+    cell.points.forEach((a, k) => {
+      const b = cell.points[(k + 1) % cell.points.length];
+      const label = cell.labels[k];
+      if (label >= 0 && Math.hypot(b.x - a.x, b.y - a.y) > EDGE_EPS) edges.set(label, [a, b]);
+    });
+    return edges;
+  });
+
+  nodes.forEach((node, i) => {
+    node.polygon = cells[i].points;
+    Object.assign(node, polygonBounds(node.polygon));
+    node.rawBrightness = areaMean(toneMap, node.x, node.y, node.w, node.h);
+    node.neighbors = [];
+    for (const [j, edge] of sharedEdges[i]) {
+      if (!sharedEdges[j].has(i)) continue;
+      node.neighbors.push({
+        node: nodes[j],
+        side: sideLabel(edge[0], edge[1]),
+        mid: { x: (edge[0].x + edge[1].x) / 2, y: (edge[0].y + edge[1].y) / 2 },
+        edge,
+      });
+    }
+    node.neighbors.sort((p, q) => p.node.id - q.node.id);
+  });
+}
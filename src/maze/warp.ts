@@ -0,0 +1,160 @@
+/**
+ * Gradient-based coordinate warping along the image's contour field
+ */
+
+import { MazeFields } from './edges';
+import { summedArea, rectSum } from './image';
+import { Point } from './types';
+
+export type WarpFn = (p: Point) => Point;
+
+const GRID_STEP = 4;
+
+/**
+ * Box mean of `sum` (a summed-area table over a w x h grid) around (cx, cy)
+ */
+function boxMean(sum: Float64Array, w: number, h: number, cx: number, cy: number, r: number): number {
+  const x0 = Math.max(0, Math.floor(cx - r));
+  const y0 = Math.max(0, Math.floor(cy - r));
+  const x1 = Math.min(w, Math.ceil(cx + r));
+  const y1 = Math.min(h, Math.ceil(cy + r));
+  return rectSum(sum, w + 1, x0, y0, x1, y1) / Math.max(1, (x1 - x0) * (y1 - y0));
+}
+
+/**
+ * Largest displacement of a field sampled on a grid `step` px apart, and its
+ * largest slope (Frobenius norm of the displacement Jacobian between grid
+ * points). A warp scaled so that slope stays below 1, counting what the
+ * border fade adds, is a perturbation of the identity by less than 1 and so
+ * fold-free.
+ */
+export function fieldExtent(
+  dx: Float32Array,
+  dy: Float32Array,
+  cols: number,
+  rows: number,
+  step: number
+): { peak: number; slope: number } {
+  let peak = 0;
+  let slope = 0;
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const i = r * cols + c;
+      peak = Math.max(peak, Math.hypot(dx[i], dy[i]));
+      if (r === rows - 1 || c === cols - 1) continue;
+      const dxdx = dx[i + 1] - dx[i], dydx = dy[i + 1] - dy[i];
+      const dxdy = dx[i + cols] - dx[i], dydy = dy[i + cols] - dy[i];
+      slope = Math.max(slope, Math.hypot(dxdx, dydx, dxdy, dydy) / step);
+    }
+  }
+  return { peak, slope };
+}
+
+/**
+ * Move points by a displacement field sampled on a grid `step` px apart
+ * (bilinear in between) times `scale`, fading linearly to zero within `fade`
+ * px of the border so the outer wall stays on the frame. The fade adds at
+ * most peak * scale / fade to the slope.
+ */
+export function fieldWarp(
+  dx: Float32Array,
+  dy: Float32Array,
+  cols: number,
+  rows: number,
+  step: number,
+  scale: number,
+  fade: number,
+  width: number,
+  height: number
+): WarpFn {
+  return ({ x, y }) => {
+    const fx = Math.max(0, Math.min(cols - 1.001, x / step));
+    const fy = Math.max(0, Math.min(rows - 1.001, y / step));
+    const c = Math.floor(fx);
+    const r = Math.floor(fy);
+    const tx = fx - c;
+    const ty = fy - r;
+    const i = r * cols + c;
+    const lerp2 = (f: Float32Array) =>
+      (f[i] * (1 - tx) + f[i + 1] * tx) * (1 - ty) + (f[i + cols] * (1 - tx) + f[i + cols + 1] * tx) * ty;
+
+    const edgeDist = Math.min(x, y, width - x, height - y);
+    const falloff = Math.max(0, Math.min(1, edgeDist / fade));
+
+    return {
+      x: x + lerp2(dx) * scale * falloff,
+      y: y + lerp2(dy) * scale * falloff,
+    };
+  };
+}
+
+/**
+ * Build a smooth displacement field that pushes points along contours
+ * (perpendicular to the gradient). The field is tent-filtered (two box
+ * passes) over a radius R and scaled so its Jacobian norm stays below 0.7,
+ * plus at most 0.25 from the border fade. The warp is then a perturbation of
+ * the identity by less than 1, so it is fold-free: walls bend but never
+ * cross and topology is unchanged. Displacement fades to zero at the maze
+ * border to keep the frame straight.
+ */
+export function createWarp(fields: MazeFields, strength: number): WarpFn {
+  const { width, height, gx, gy } = fields;
+  if (strength <= 0) return (p) => p;
+
+  const radius = Math.max(4, Math.round(Math.max(width, height) / 32));
+  const maxShift = strength * 0.5 * radius;
+
+  // First box pass at full resolution, sampled onto a coarse grid
+  const sumX = summedArea(width, height, (x, y) => -gy[y * width + x]);
+  const sumY = summedArea(width, height, (x, y) => gx[y * width + x]);
+  const cols = Math.ceil(width / GRID_STEP) + 1;
+  const rows = Math.ceil(height / GRID_STEP) + 1;
+  const half = radius / 2;
+  const boxX = new Float32Array(cols * rows);
+  const boxY = new Float32Array(cols * rows);
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      boxX[r * cols + c] = boxMean(sumX, width, height, c * GRID_STEP, r * GRID_STEP, half);
+      boxY[r * cols + c] = boxMean(sumY, width, height, c * GRID_STEP, r * GRID_STEP, half);
+    }
+  }
+
+  // Second box pass on the grid
+  const gridSumX = summedArea(cols, rows, (c, r) => boxX[r * cols + c]);
+  const gridSumY = summedArea(cols, rows, (c, r) => boxY[r * cols + c]);
+  const gridHalf = half / GRID_STEP;
+  const dx = new Float32Array(cols * rows);
+  const dy = new Float32Array(cols * rows);
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const i = r * cols + c;
+      dx[i] = boxMean(gridSumX, cols, rows, c + 0.5, r + 0.5, gridHalf);
+      dy[i] = boxMean(gridSumY, cols, rows, c + 0.5, r + 0.5, gridHalf);
+    }
+  }
+
+  const { peak, slope } = fieldExtent(dx, dy, cols, rows, GRID_STEP);
+  if (peak === 0) return (p) => p;
+  const scale = Math.min(maxShift / peak, slope > 0 ? 0.7 / slope : Infinity);
+  // The fade's slope is at most maxShift / (radius * 4) <= 0.25 at full strength
+  return fieldWarp(dx, dy, cols, rows, GRID_STEP, scale, radius * 4, width, height);
+}
+
+/**
+ * Split a polyline so no piece is longer than `maxStep`, so straight walls
+ * can follow the curvature of a warp
+ */
+export function densify(points: Point[], maxStep = GRID_STEP): Point[] {
+  if (points.length < 2) return points;
+  const out: Point[] = [points[0]];
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    const steps = Math.max(1, Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) / maxStep));
+    for (let s = 1; s <= steps; s++) {
+      const t = s / steps;
+      out.push({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+    }
+  }
+  return out;
+}
@@ -0,0 +1,146 @@
+/**
+ * Waypoint-based forced solution paths
+ */
+
+import { MazeNode, Point } from './types';
+import { EdgeMap } from './edges';
+import { tracePath } from './carve';
+import { containsPoint } from './cells';
+import { cellEdgeStrengths, cheapestPath } from './routing';
+
+/**
+ * Find the MazeNode that contains or is closest to a point
+ */
+export function findNearestNode(x: number, y: number, nodes: MazeNode[]): MazeNode | null {
+  if (nodes.length === 0) return null;
+
+  // First check if point is inside any node
+  for (const node of nodes) {
+    if (x >= node.x && x <= node.x + node.w && y >= node.y && y <= node.y + node.h && containsPoint(node.polygon, x, y)) {
+      return node;
+    }
+  }
+
+  // Otherwise find nearest by center distance
+  let nearest: MazeNode | null = null;
+  let minDist = Infinity;
+  for (const node of nodes) {
+    const dist = Math.hypot(x - node.center.x, y - node.center.y);
+    if (dist < minDist) {
+      minDist = dist;
+      nearest = node;
+    }
+  }
+  return nearest;
+}
+
+/**
+ * BFS through neighbors (adjacency graph, not connections) to find path between two nodes
+ */
+export function findPathBFS(from: MazeNode, to: MazeNode): MazeNode[] {
+  if (from.id === to.id) return [from];
+
+  const parent = new Map<MazeNode, MazeNode | null>([[from, null]]);
+  const queue: MazeNode[] = [from];
+
+  for (let head = 0; head < queue.length; head++) {
+    const node = queue[head];
+    if (node.id === to.id) return tracePath(parent, node);
+
+    for (const { node: neighbor } of node.neighbors) {
+      if (!parent.has(neighbor)) {
+        parent.set(neighbor, node);
+        queue.push(neighbor);
+      }
+    }
+  }
+  return [from]; // Fallback if no path (shouldn't happen in connected quadtree)
+}
+
+/**
+ * Forced path through the waypoints, and how many of them it reaches in
+ * order. `reached` falls short of the waypoint count when the path so far
+ * walls off the next one (or two waypoints land in the same cell); the path
+ * then ends at the last waypoint it could reach. Legs are routed greedily,
+ * one at a time, so a differently routed earlier leg might have reached it.
+ */
+export interface WaypointPath {
+  path: MazeNode[];
+  reached: number;
+}
+
+// Cost per px through the darkest or most edged cell, relative to 1 for a
+// flat white one: detours through features are worth up to ~4x their length
+const WAYPOINT_FLOOR = 0.25;
+
+/**
+ * Route a simple (never self-crossing) path through the waypoints in order.
+ * Each leg is the cheapest route to the next waypoint that avoids every
+ * cell already on the path and every later waypoint's cell, where cells
+ * cost less the darker they are or the stronger the edges inside them, so
+ * the path follows features rather than taking the fewest cells.
+ */
+export function mapWaypointsToPath(wps: Point[], nodes: MazeNode[], edgeMap: EdgeMap): WaypointPath {
+  if (wps.length === 0 || nodes.length === 0) return { path: [], reached: 0 };
+
+  // Map each waypoint to its nearest node, merging clicks in the same cell
+  const stops: { node: MazeNode; index: number }[] = [];
+  wps.forEach((wp, index) => {
+    const node = findNearestNode(wp.x, wp.y, nodes);
+    if (node && node !== stops[stops.length - 1]?.node) stops.push({ node, index });
+  });
+  if (stops.length <= 1) return { path: stops.map(({ node }) => node), reached: wps.length };
+
+  const strength = cellEdgeStrengths(nodes, edgeMap);
+  const costPerPx = (node: MazeNode) => {
+    const pull = Math.max(strength.get(node)!, 1 - node.rawBrightness / 255);
+    return WAYPOINT_FLOOR + (1 - WAYPOINT_FLOOR) * (1 - pull) ** 2;
+  };
+
+  const path: MazeNode[] = [stops[0].node];
+  const onPath = new Set(path);
+  const blocked = new Set(stops.map(({ node }) => node));
+  for (const { node: to, index } of stops.slice(1)) {
+    if (onPath.has(to)) return { path, reached: index };
+    blocked.delete(to);
+    const leg = cheapestPath(path[path.length - 1], to, costPerPx, blocked);
+    if (!leg) return { path, reached: index };
+    for (const node of leg.slice(1)) {
+      path.push(node);
+      onPath.add(node);
+      blocked.add(node);
+    }
+  }
+
+  return { path, reached: wps.length };
+}
+
+/**
+ * Ramer-Douglas-Peucker: drop points of a freehand stroke that lie within
+ * `tolerance` px of the line through their neighbors, keeping both ends
+ */
+export function simplifyPolyline(points: Point[], tolerance: number): Point[] {
+  if (points.length <= 2) return points;
+  const a = points[0];
+  const b = points[points.length - 1];
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const len = Math.hypot(dx, dy);
+
+  let farthest = 0;
+  let maxDist = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const p = points[i];
+    // Distance to the chord, or to `a` when the stroke ends where it began
+    const d = len > 0 ? Math.abs(dy * (p.x - a.x) - dx * (p.y - a.y)) / len : Math.hypot(p.x - a.x, p.y - a.y);
+    if (d > maxDist) {
+      maxDist = d;
+      farthest = i;
+    }
+  }
+  if (maxDist <= tolerance) return [a, b];
+  return [
+    ...simplifyPolyline(points.slice(0, farthest + 1), tolerance).slice(0, -1),
+    ...simplifyPolyline(points.slice(farthest), tolerance),
+  ];
+}
@@ -0,0 +1,85 @@
+/**
+ * Weave crossings: corridors passing under one another at straight
+ * stretches, so dark regions get more intricate without smaller cells
+ */
+
+import { solveBFS } from './carve';
+import { RandomFn } from './random';
+import { MazeNeighbor, MazeNode } from './types';
+
+export interface WeaveParams {
+  weave: number;  // 0-1, chance a suitable cell becomes a crossing (scaled by darkness)
+}
+
+// The bridge's rails sit this share of the cell in from the tunnel's sides
+export const WEAVE_INSET = 0.25;
+
+/**
+ * The two opposite neighbor pairs of a square-sided cell with exactly one
+ * neighbor per side (no frame, mask or finer cells around it), or null
+ */
+function crossingPairs(node: MazeNode): [MazeNeighbor, MazeNeighbor][] | null {
+  if (node.arcs || node.neighbors.length !== 4) return null;
+  const bySide = new Map(node.neighbors.map((nb) => [nb.side, nb]));
+  if (bySide.size !== 4 || !['top', 'bottom', 'left', 'right'].every((side) => bySide.has(side))) return null;
+  return [
+    [bySide.get('left')!, bySide.get('right')!],
+    [bySide.get('top')!, bySide.get('bottom')!],
+  ];
+}
+
+const edgeKey = (a: MazeNode, b: MazeNode) => (a.id < b.id ? `${a.id}-${b.id}` : `${b.id}-${a.id}`);
+
+/**
+ * Turn straight corridor cells of a carved (perfect) maze into crossings.
+ * The corridor stays on top as a bridge; the two cells on its other sides
+ * are linked by a tunnel beneath it (a connection through the cell center,
+ * recorded in the cell's `under`). The tunnel closes a loop, so one random
+ * passage on the loop is walled up again and the maze stays perfect.
+ * Passages in `keep` (a forced solution path) and those of earlier
+ * crossings are never walled up.
+ */
+export function weaveMaze(nodes: MazeNode[], keep: MazeNode[], random: RandomFn, params: WeaveParams): void {
+  if (params.weave <= 0) return;
+  const fixed = new Set<string>();
+  for (let i = 0; i < keep.length - 1; i++) fixed.add(edgeKey(keep[i], keep[i + 1]));
+
+  // Random order, so early crossings don't crowd one corner
+  const order = [...nodes];
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+
+  for (const node of order) {
+    const pairs = crossingPairs(node);
+    if (!pairs || node.connections.size !== 2) continue;
+    if (random() >= params.weave * (1 - node.rawBrightness / 255)) continue;
+    // Neighboring crossings would have to share a rail
+    if (node.neighbors.some((nb) => nb.node.under)) continue;
+
+    const over = pairs.find(([a, b]) => node.connections.has(a.node) && node.connections.has(b.node));
+    if (!over) continue;
+    const [a, b] = pairs.find((pair) => pair !== over)!.map((nb) => nb.node);
+    if (a.connections.has(b)) continue;
+
+    // The tunnel closes the loop a..b; wall up a passage on the way round
+    const loop = solveBFS(a, b);
+    const cuttable: [MazeNode, MazeNode][] = [];
+    for (let i = 0; i < loop.length - 1; i++) {
+      if (!fixed.has(edgeKey(loop[i], loop[i + 1])) && loop[i] !== node && loop[i + 1] !== node) {
+        cuttable.push([loop[i], loop[i + 1]]);
+      }
+    }
+    if (cuttable.length === 0) continue;
+    const [p, q] = cuttable[Math.floor(random() * cuttable.length)];
+    p.connections.delete(q);
+    q.connections.delete(p);
+
+    a.connections.set(b, node.center);
+    b.connections.set(a, node.center);
+    node.under = [a, b];
+    for (const nb of over) fixed.add(edgeKey(node, nb.node));
+    fixed.add(edgeKey(a, b));
+  }
+}
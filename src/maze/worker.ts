@@ -0,0 +1,26 @@
+/**
+ * Web Worker entry point - runs generateMaze off the main thread
+ */
+
+import { generateMaze } from './generate';
+import type { MazeWorkerRequest, MazeWorkerResponse } from './client';
+
+const post = (msg: MazeWorkerResponse, transfer: Transferable[] = []) => self.postMessage(msg, { transfer });
+
+self.addEventListener('message', (e: MessageEvent<MazeWorkerRequest>) => {
+  const { image, params } = e.data;
+  try {
+    const maze = generateMaze(image, params, {
+      onProgress: (stage) => post({ type: 'progress', stage }),
+      onTargetProgress: (progress) => post({ type: 'target', progress }),
+    });
+    // Structured clone keeps the node graph intact (cycles and Map keys);
+    // the large per-pixel fields are transferred instead of copied
+    const transfer = maze.fields
+      ? [maze.fields.tone, maze.fields.gx, maze.fields.gy, maze.fields.magnitude].map((a) => a.buffer)
+      : [];
+    post({ type: 'done', maze }, transfer);
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+});